@@ -11,6 +11,10 @@ declare module './lib/report-generator.js' {
   export * from './lib/report-generator';
 }
 
+declare module './lib/request-validator.js' {
+  export * from './lib/request-validator';
+}
+
 declare module './interceptors/axios-interceptors.js' {
   export * from './interceptors/axios-interceptors';
 }
@@ -22,3 +26,51 @@ declare module './utils/file-utils.js' {
 declare module './types/index.js' {
   export * from './types/index';
 }
+
+declare module './interceptors/fetch-interceptors.js' {
+  export * from './interceptors/fetch-interceptors';
+}
+
+declare module './interceptors/http-interceptors.js' {
+  export * from './interceptors/http-interceptors';
+}
+
+declare module './interceptors/browser-network.js' {
+  export * from './interceptors/browser-network';
+}
+
+declare module './utils/server-resolver.js' {
+  export * from './utils/server-resolver';
+}
+
+declare module './utils/request-filter.js' {
+  export * from './utils/request-filter';
+}
+
+declare module './utils/spec-router.js' {
+  export * from './utils/spec-router';
+}
+
+declare module './utils/schema-walker.js' {
+  export * from './utils/schema-walker';
+}
+
+declare module './utils/schema-validator.js' {
+  export * from './utils/schema-validator';
+}
+
+declare module './utils/capability-utils.js' {
+  export * from './utils/capability-utils';
+}
+
+declare module './lib/threshold-checker.js' {
+  export * from './lib/threshold-checker';
+}
+
+declare module './lib/coverage-launcher.js' {
+  export * from './lib/coverage-launcher';
+}
+
+declare module './lib/html-report.js' {
+  export * from './lib/html-report';
+}
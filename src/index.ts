@@ -1,25 +1,51 @@
 import { existsSync, unlinkSync } from 'node:fs';
-import type { Services } from '@wdio/types';
+import type { Frameworks, Services } from '@wdio/types';
 import logger from '@wdio/logger';
 
 // Import from our modules
-import { apiClient, setupInterceptors } from './interceptors/axios-interceptors.js';
-import { ensureTempDirs, COVERAGE_DIR } from './utils/file-utils.js';
+import {
+  apiClient,
+  setupInterceptors,
+  trackAxiosInstance,
+  untrackAxiosInstance,
+  hookAxiosCreate,
+  untrackAllAxiosInstances,
+} from './interceptors/axios-interceptors.js';
+import { setupFetchInterceptor, restoreFetch } from './interceptors/fetch-interceptors.js';
+import { setupHttpInterceptors, restoreHttpModules } from './interceptors/http-interceptors.js';
+import {
+  setupBrowserNetworkTracking,
+  IBrowserEventSource,
+} from './interceptors/browser-network.js';
+import { trackInFlightRequests } from './interceptors/request-tracker.js';
+import {
+  getSpecCoverageDir,
+  saveHitEndpoints,
+  saveEndpointUsage,
+  COVERAGE_DIR,
+} from './utils/file-utils.js';
+import { describeWorker } from './utils/capability-utils.js';
+import { getWebDriverEndpoint } from './utils/request-filter.js';
+import { isRoutableSpec } from './utils/spec-router.js';
 import {
   loadOpenApiSpec,
+  parseOpenApiSpec,
   extractEndpointsFromSpec,
   generatePathPatterns,
   inferPatternsFromRequests,
 } from './lib/openapi-processor.js';
-import { getAllHitEndpoints, getAllServerErrors } from './lib/endpoint-collector.js';
-import { generateCoverageReport } from './lib/report-generator.js';
+import { OpenAPICoverageLauncher, LAUNCHER_ENV } from './lib/coverage-launcher.js';
 import {
   TServiceOptions,
   IOpenAPIDocument,
   IServerErrorRecord,
+  IEndpointUsageRecord,
   IPathPattern,
+  ITrackingContext,
+  TRequestFilter,
+  ILoadedApiSpec,
 } from './types/index.js';
-import { join } from 'node:path';
+import { join, relative, resolve } from 'node:path';
 
 // Create a logger instance
 const log = logger('openapi:coverage-service');
@@ -29,6 +55,33 @@ const log = logger('openapi:coverage-service');
  */
 export { apiClient };
 
+/**
+ * Export helpers to track user-owned axios instances (e.g. axios.create({ baseURL }))
+ */
+export { trackAxiosInstance, untrackAxiosInstance };
+
+/**
+ * Export the launcher generating the report and checking the coverage thresholds when the run
+ * completes
+ */
+export { OpenAPICoverageLauncher as launcher };
+
+// Tracking context of the service running in this worker
+let activeTrackingContext: ITrackingContext | null = null;
+
+/**
+ * Mark client errors (4xx) of the running test as intentional, e.g. in negative tests
+ * Without statuses every 4xx is expected. The expectation ends with the test or scenario
+ */
+export function expectErrorStatus(...statuses: number[]): void {
+  if (!activeTrackingContext) {
+    log.warn('expectErrorStatus() was called before the OpenAPI coverage service started');
+    return;
+  }
+
+  activeTrackingContext.expectedErrorStatuses = statuses;
+}
+
 /**
  * Main service class for OpenAPI coverage tracking
  */
@@ -42,22 +95,29 @@ export default class OpenAPICoverageService implements Services.ServiceInstance
   private workerId: string;
   private hitEndpointsFile: string;
   private errorsFile: string;
+  private usageFile: string;
+  private endpointUsage: Record<string, IEndpointUsageRecord>;
   private customPatterns?: IPathPattern[];
   private autoGeneratedPatterns?: IPathPattern[];
   private inferredPatterns?: IPathPattern[];
   private allRequestPaths: Set<string>;
   private patternUpdateInterval: NodeJS.Timeout | null = null;
   private lastPathCount: number = 0;
+  private trackingContext: ITrackingContext | null = null;
+  private removeBrowserNetworkTracking: (() => void) | null = null;
+  private additionalSpecs: ILoadedApiSpec[] = [];
+  private webDriverEndpoint?: URL;
 
   constructor(
     options: TServiceOptions,
     _capabilities: WebdriverIO.Capabilities,
-    _config: TServiceOptions
+    config: TServiceOptions
   ) {
     this.options = options;
     this.specEndpoints = new Set();
     this.hitEndpoints = new Set<string>();
     this.endpointErrors = {};
+    this.endpointUsage = {};
     this.apiSpec = null;
     this.allRequestPaths = new Set<string>();
 
@@ -71,11 +131,19 @@ export default class OpenAPICoverageService implements Services.ServiceInstance
     // Create worker-specific file paths
     this.hitEndpointsFile = join(COVERAGE_DIR, `endpoints-${this.workerId}.json`);
     this.errorsFile = join(COVERAGE_DIR, `errors-${this.workerId}.json`);
+    this.usageFile = join(COVERAGE_DIR, `usage-${this.workerId}.json`);
 
     log.info(`OpenAPI Coverage Service initialized for worker ${this.workerId}`);
 
-    // Ensure temp directories exist
-    ensureTempDirs();
+    // Only the launcher clears the data of previous runs and generates the report
+    if (!process.env[LAUNCHER_ENV]) {
+      log.error(
+        "The OpenAPI coverage launcher did not run, so no coverage report will be generated. Register the service by name ('openapi'), or add its `launcher` export to the services next to the service class"
+      );
+    }
+
+    // Never track the WebDriver commands of the session, e.g. sent through fetch by WebdriverIO v9
+    this.webDriverEndpoint = getWebDriverEndpoint(config);
 
     // Setup interceptors ASAP, not waiting for before() hook
     this.setupAxiosInterceptors();
@@ -151,20 +219,8 @@ export default class OpenAPICoverageService implements Services.ServiceInstance
         }
       }
 
-      // Update interceptors with the new patterns
-      const allPatterns = this.getAllPatterns();
-      log.info(`Using ${allPatterns.length} total patterns for path normalization`);
-
-      setupInterceptors(
-        this.hitEndpoints,
-        this.endpointErrors,
-        this.apiSpec,
-        this.workerId,
-        this.hitEndpointsFile,
-        this.errorsFile,
-        allPatterns,
-        this.recordRequestPath.bind(this)
-      );
+      // Update the patterns the interceptors read from
+      this.updateTrackingPatterns();
     }
 
     this.lastPathCount = this.allRequestPaths.size;
@@ -206,20 +262,197 @@ export default class OpenAPICoverageService implements Services.ServiceInstance
       return;
     }
 
-    setupInterceptors(
-      this.hitEndpoints,
-      this.endpointErrors,
-      this.apiSpec,
-      this.workerId,
-      this.hitEndpointsFile,
-      this.errorsFile,
-      this.getAllPatterns(), // Pass all patterns (custom + auto-generated + inferred)
-      this.recordRequestPath.bind(this) // Pass callback to record paths
-    );
+    this.installInterceptors();
 
     this.initialized = true;
   }
 
+  /**
+   * Install the axios, fetch and http/https interceptors
+   * They are installed once and read the spec and patterns from the shared tracking context
+   */
+  private installInterceptors(): void {
+    const context = this.getTrackingContext();
+
+    setupInterceptors(context, this.options.interceptGlobalAxios !== false);
+
+    // Track every instance produced by axios.create when enabled
+    if (this.options.trackAxiosCreate) {
+      hookAxiosCreate();
+    }
+
+    // Track requests made through the global fetch unless disabled
+    if (this.options.trackFetch !== false) {
+      setupFetchInterceptor(context);
+    }
+
+    // Track requests made directly through the http/https core modules when enabled
+    if (this.options.trackHttpModule) {
+      setupHttpInterceptors(context);
+    }
+  }
+
+  /**
+   * Update the spec and patterns (custom + auto-generated + inferred) used by the interceptors
+   */
+  private updateTrackingPatterns(): void {
+    const context = this.getTrackingContext();
+    context.apiSpec = this.apiSpec;
+    context.customPatterns = this.getAllPatterns();
+
+    // Additional specs use their own generated patterns next to the custom and inferred ones
+    for (const { target, patterns } of this.additionalSpecs) {
+      target.customPatterns = [
+        ...(this.customPatterns || []),
+        ...patterns,
+        ...(this.inferredPatterns || []),
+      ];
+    }
+
+    log.info(`Using ${context.customPatterns.length} total patterns for path normalization`);
+  }
+
+  /**
+   * Get the tracking context shared by all capture layers of this service
+   */
+  private getTrackingContext(): ITrackingContext {
+    if (!this.trackingContext) {
+      this.trackingContext = {
+        hitEndpoints: this.hitEndpoints,
+        endpointErrors: this.endpointErrors,
+        apiSpec: this.apiSpec,
+        workerId: this.workerId,
+        hitEndpointsFile: this.hitEndpointsFile,
+        errorsFile: this.errorsFile,
+        endpointUsage: this.endpointUsage,
+        usageFile: this.usageFile,
+        customPatterns: this.getAllPatterns(),
+        requestFilter: this.getRequestFilter(),
+        webDriverEndpoint: this.webDriverEndpoint,
+        recordParameterValues: this.options.recordParameterValues,
+        validateResponses: this.options.validateResponses,
+        validateRequests: this.options.validateRequests,
+        trackClientErrors: this.options.trackClientErrors,
+        negativeTestPattern: this.getNegativeTestPattern(),
+        specTargets: [],
+        recordPathCallback: this.recordRequestPath.bind(this), // Pass callback to record paths
+      };
+      activeTrackingContext = this.trackingContext;
+    }
+
+    return this.trackingContext;
+  }
+
+  /**
+   * Load the additional specs and route their requests to their own tracking targets
+   */
+  private async loadAdditionalSpecs(): Promise<void> {
+    const context = this.getTrackingContext();
+
+    for (const config of this.options.apiSpecs || []) {
+      if (this.additionalSpecs.some(({ target }) => target.name === config.name)) {
+        log.warn(`Skipping duplicate OpenAPI spec name: ${config.name}`);
+        continue;
+      }
+
+      const apiSpec = await parseOpenApiSpec(resolve(process.cwd(), config.openApiPath));
+      if (!apiSpec) {
+        log.error(`Could not load OpenAPI spec ${config.name} from ${config.openApiPath}`);
+        continue;
+      }
+
+      const directory = getSpecCoverageDir(config.name);
+      const loadedSpec: ILoadedApiSpec = {
+        target: {
+          name: config.name,
+          hosts: config.hosts,
+          pathPrefix: config.pathPrefix,
+          apiSpec,
+          hitEndpoints: new Set<string>(),
+          endpointErrors: {},
+          endpointUsage: {},
+          hitEndpointsFile: join(directory, `endpoints-${this.workerId}.json`),
+          errorsFile: join(directory, `errors-${this.workerId}.json`),
+          usageFile: join(directory, `usage-${this.workerId}.json`),
+        },
+        specEndpoints: extractEndpointsFromSpec(apiSpec),
+        patterns: generatePathPatterns(apiSpec),
+        directory,
+      };
+
+      if (!isRoutableSpec(loadedSpec.target)) {
+        log.warn(
+          `Skipping OpenAPI spec ${config.name}: set hosts or pathPrefix, or declare absolute servers in the spec, to route requests to it`
+        );
+        continue;
+      }
+
+      this.additionalSpecs.push(loadedSpec);
+      context.specTargets?.push(loadedSpec.target);
+
+      log.info(
+        `Loaded OpenAPI spec ${config.name} with ${loadedSpec.specEndpoints.size} endpoints`
+      );
+    }
+
+    this.updateTrackingPatterns();
+  }
+
+  /**
+   * Get the pattern of the test titles whose client errors (4xx) are intentional
+   */
+  private getNegativeTestPattern(): RegExp | undefined {
+    const { negativeTestPattern } = this.options;
+    if (!negativeTestPattern) {
+      return undefined;
+    }
+
+    return negativeTestPattern instanceof RegExp
+      ? negativeTestPattern
+      : new RegExp(negativeTestPattern, 'i');
+  }
+
+  /**
+   * Get the rules deciding which requests are tracked
+   */
+  private getRequestFilter(): TRequestFilter {
+    const {
+      limitToSpecHosts,
+      includeHosts,
+      excludeHosts,
+      includePaths,
+      excludePaths,
+      includeMethods,
+      excludeMethods,
+    } = this.options;
+
+    return {
+      limitToSpecHosts,
+      includeHosts,
+      excludeHosts,
+      includePaths,
+      excludePaths,
+      includeMethods,
+      excludeMethods,
+    };
+  }
+
+  /**
+   * Remove the request tracking installed by this service
+   */
+  private removeInterceptors(): void {
+    untrackAllAxiosInstances();
+    restoreFetch();
+    restoreHttpModules();
+
+    if (this.removeBrowserNetworkTracking) {
+      this.removeBrowserNetworkTracking();
+      this.removeBrowserNetworkTracking = null;
+    }
+
+    this.initialized = false;
+  }
+
   /**
    * Get all path normalization patterns (custom + auto-generated + inferred)
    */
@@ -241,12 +474,25 @@ export default class OpenAPICoverageService implements Services.ServiceInstance
    * WebdriverIO before hook
    */
   async before(
-    _capabilities: WebdriverIO.Capabilities,
+    capabilities: WebdriverIO.Capabilities,
     _specs: string[],
-    _browser: WebdriverIO.Browser
+    browser: WebdriverIO.Browser
   ): Promise<void> {
     log.info(`OpenAPI Coverage Service: before() method called for worker ${this.workerId}`);
 
+    // Remember the capability so the report can break the coverage down by capability
+    this.getTrackingContext().workerInfo = describeWorker(
+      this.workerId,
+      capabilities,
+      this.options.capabilityLabels
+    );
+
+    // The session knows the port of a WebDriver server started for it
+    const webDriverEndpoint = getWebDriverEndpoint(browser?.options);
+    if (webDriverEndpoint) {
+      this.getTrackingContext().webDriverEndpoint = webDriverEndpoint;
+    }
+
     // Ensure interceptors are set up (should already be done in constructor, but just in case)
     this.setupAxiosInterceptors();
 
@@ -264,21 +510,25 @@ export default class OpenAPICoverageService implements Services.ServiceInstance
         );
 
         // Update interceptors with the new patterns
-        setupInterceptors(
-          this.hitEndpoints,
-          this.endpointErrors,
-          this.apiSpec,
-          this.workerId,
-          this.hitEndpointsFile,
-          this.errorsFile,
-          this.getAllPatterns(),
-          this.recordRequestPath.bind(this)
-        );
+        this.updateTrackingPatterns();
       } else {
         log.warn('No OpenAPI specification found or loaded');
       }
     }
 
+    // Load the additional specs, each routed by host and/or path prefix
+    if (this.options.apiSpecs && this.additionalSpecs.length === 0) {
+      await this.loadAdditionalSpecs();
+    }
+
+    // Track XHR/fetch calls made by the application inside the browser when enabled
+    if (this.options.trackBrowserRequests && browser && !this.removeBrowserNetworkTracking) {
+      this.removeBrowserNetworkTracking = await setupBrowserNetworkTracking(
+        browser as unknown as IBrowserEventSource,
+        this.getTrackingContext()
+      );
+    }
+
     // Clean up any previous files for this worker
     if (existsSync(this.hitEndpointsFile)) {
       unlinkSync(this.hitEndpointsFile);
@@ -289,6 +539,68 @@ export default class OpenAPICoverageService implements Services.ServiceInstance
       unlinkSync(this.errorsFile);
       log.info(`Cleaned up previous errors file: ${this.errorsFile}`);
     }
+
+    if (existsSync(this.usageFile)) {
+      unlinkSync(this.usageFile);
+      log.info(`Cleaned up previous usage file: ${this.usageFile}`);
+    }
+  }
+
+  /**
+   * WebdriverIO beforeTest hook (Mocha/Jasmine): attribute the next requests to the test
+   */
+  beforeTest(test: Frameworks.Test): void {
+    const context = this.getTrackingContext();
+    context.currentTest = test.fullTitle || test.fullName || test.title;
+    context.currentTestReference = {
+      file: test.file ? relative(process.cwd(), test.file) : undefined,
+      suite: test.parent || undefined,
+      title: test.title || context.currentTest,
+    };
+  }
+
+  /**
+   * WebdriverIO afterTest hook (Mocha/Jasmine)
+   */
+  afterTest(): void {
+    this.clearCurrentTest();
+  }
+
+  /**
+   * WebdriverIO beforeScenario hook (Cucumber): attribute the next requests to the scenario
+   */
+  beforeScenario(world: Frameworks.World): void {
+    const context = this.getTrackingContext();
+    const { pickle, gherkinDocument } = world as Frameworks.World & {
+      pickle: { uri?: string };
+      gherkinDocument?: { feature?: { name?: string } };
+    };
+
+    context.currentTest = pickle?.name;
+    context.currentTestReference = pickle?.name
+      ? {
+          file: pickle.uri ? relative(process.cwd(), pickle.uri) : undefined,
+          suite: gherkinDocument?.feature?.name || undefined,
+          title: pickle.name,
+        }
+      : undefined;
+  }
+
+  /**
+   * WebdriverIO afterScenario hook (Cucumber)
+   */
+  afterScenario(): void {
+    this.clearCurrentTest();
+  }
+
+  /**
+   * Stop attributing requests to the test or scenario that just finished
+   */
+  private clearCurrentTest(): void {
+    const context = this.getTrackingContext();
+    context.currentTest = undefined;
+    context.currentTestReference = undefined;
+    context.expectedErrorStatuses = undefined;
   }
 
   /**
@@ -307,41 +619,28 @@ export default class OpenAPICoverageService implements Services.ServiceInstance
       this.patternUpdateInterval = null;
     }
 
-    // Determine if this worker should generate the report (usually only one worker should do it)
-    // WebdriverIO uses formats like "0-1" where the first number is the spec file index
-    // and the second is the worker instance number, or "0" for a single worker
-    const isMainWorker =
-      !process.env.WDIO_WORKER_ID ||
-      process.env.WDIO_WORKER_ID === '0' ||
-      process.env.WDIO_WORKER_ID.startsWith('0-');
-
-    if (!isMainWorker) {
-      log.info(`Worker ${this.workerId} is not the main worker, skipping report generation`);
-      return;
+    // Requests still waiting for a response when the worker finishes are reported as hung
+    const context = this.getTrackingContext();
+    const inFlight = trackInFlightRequests(context);
+    if (inFlight > 0) {
+      log.warn(`Worker ${this.workerId} finished with ${inFlight} request(s) still in flight`);
     }
 
-    log.info(`Worker ${this.workerId} is generating the coverage report`);
-
-    // Do one final pattern inference before generating the report
-    if (this.allRequestPaths.size > 0) {
-      this.updateInferredPatterns();
+    // Save the endpoints of every worker with its capability, also when it made no requests,
+    // and its endpoint usage, both kept in memory during the run
+    // The launcher combines the files of all workers into the report once they have finished
+    for (const target of [context, ...(context.specTargets || [])]) {
+      saveHitEndpoints(
+        target.hitEndpointsFile,
+        target.hitEndpoints,
+        this.workerId,
+        target.hitCounts,
+        context.workerInfo
+      );
+      saveEndpointUsage(target.usageFile, target.endpointUsage, this.workerId);
     }
 
-    // Collect all hit endpoints from all workers
-    const hitEndpoints = getAllHitEndpoints(this.hitEndpoints, this.workerId);
-    log.info(`Combined total: ${hitEndpoints.length} unique hit endpoints from all workers`);
-
-    // Collect all server errors from all workers
-    const allServerErrors = getAllServerErrors(this.endpointErrors);
-
-    // Generate and save the coverage report
-    const reportPath = this.options.outputPath || 'api-coverage-report.json';
-    generateCoverageReport(
-      this.specEndpoints,
-      hitEndpoints,
-      allServerErrors,
-      reportPath,
-      this.options.endpointPatternFile !== undefined ? this.options.endpointPatternFile : undefined
-    );
+    // Stop tracking user axios instances, fetch, http/https and browser requests for this worker
+    this.removeInterceptors();
   }
 }
@@ -1,9 +1,13 @@
-import axios, { AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import logger from '@wdio/logger';
-import { IServerErrorRecord, IPathPattern } from '../types/index.js';
-import { normalizePath } from '../utils/path-normalizer.js';
-import { saveHitEndpoints, saveErrors } from '../utils/file-utils.js';
-import { IOpenAPIDocument } from '../types/index.js';
+import { ICapturedResponse, ITrackingContext, TRequestHeaders } from '../types/index.js';
+import {
+  resolveRequestUrl,
+  trackNetworkFailure,
+  trackRequest,
+  trackResponse,
+} from './request-tracker.js';
+import { markRequestHandled } from './http-interceptors.js';
 
 // Create a logger instance
 const log = logger('openapi:axios-interceptors');
@@ -11,185 +15,171 @@ const log = logger('openapi:axios-interceptors');
 // Export a singleton axios instance that can be imported in tests
 export const apiClient = axios.create();
 
+/**
+ * Interceptor ids registered on an axios instance
+ */
+interface IInterceptorIds {
+  request: number;
+  response: number;
+}
+
+// Every axios instance carrying our interceptors (default, apiClient and user-owned ones)
+const trackedInstances = new Map<AxiosInstance, IInterceptorIds>();
+
+// Context all axios interceptors report to, updated in place when patterns change
+let activeContext: ITrackingContext | null = null;
+
+// The original axios.create, kept while every new instance is tracked automatically
+let originalCreate: typeof axios.create | null = null;
+
+/**
+ * The URL a request was tracked under and when it was sent
+ */
+interface ISentRequest {
+  url: URL;
+  startTime: number;
+  releaseHandledRequest: () => void; // Drops the announcement to the http layer once settled
+}
+
+// Requests by config, axios passes the same config object to the response interceptors
+const sentRequests = new WeakMap<InternalAxiosRequestConfig, ISentRequest>();
+
 /**
  * Set up all interceptors on axios instances
+ * Each instance gets exactly one request and one response interceptor, calling this
+ * again only swaps the context they report to
+ * @param context The tracking context the interceptors report to
+ * @param interceptGlobalAxios Whether to also intercept the default axios instance
  */
-export function setupInterceptors(
-  hitEndpoints: Set<string>,
-  endpointErrors: Record<string, IServerErrorRecord>,
-  apiSpec: IOpenAPIDocument | null,
-  workerId: string,
-  hitEndpointsFile: string,
-  errorsFile: string,
-  customPatterns?: IPathPattern[],
-  recordPathCallback?: (path: string) => void
-): void {
+export function setupInterceptors(context: ITrackingContext, interceptGlobalAxios = true): void {
   log.info('Setting up axios interceptors for request tracking');
 
-  // Set up request interceptor on default axios instance
-  axios.interceptors.request.use(
-    createRequestInterceptor(
-      hitEndpoints,
-      apiSpec,
-      workerId,
-      hitEndpointsFile,
-      customPatterns,
-      recordPathCallback
-    )
-  );
-  log.info('Set up interceptor on default axios instance');
+  activeContext = context;
 
-  // Set up response interceptor on default axios instance
-  axios.interceptors.response.use(
-    createResponseSuccessInterceptor(),
-    createResponseErrorInterceptor(endpointErrors, apiSpec, workerId, errorsFile, customPatterns)
-  );
-  log.info('Set up response interceptor on default axios instance');
-
-  // Set up request interceptor on our exported instance
-  apiClient.interceptors.request.use(
-    createRequestInterceptor(
-      hitEndpoints,
-      apiSpec,
-      workerId,
-      hitEndpointsFile,
-      customPatterns,
-      recordPathCallback
-    )
-  );
+  // Set up interceptors on default axios instance
+  if (interceptGlobalAxios) {
+    trackAxiosInstance(axios);
+    log.info('Set up interceptors on default axios instance');
+  } else {
+    log.info('Leaving the default axios instance untouched');
+  }
+
+  // Set up interceptors on our exported instance
+  trackAxiosInstance(apiClient);
+  log.info('Set up interceptors on exported axios instance');
+}
+
+/**
+ * Attach the tracking interceptors to a user-owned axios instance
+ * e.g. one created with axios.create({ baseURL })
+ * @param instance The axios instance to track
+ * @returns The same instance, for chaining
+ */
+export function trackAxiosInstance<T extends AxiosInstance>(instance: T): T {
+  if (trackedInstances.has(instance)) {
+    return instance;
+  }
 
-  // Set up response interceptor on our exported instance
-  apiClient.interceptors.response.use(
+  const request = instance.interceptors.request.use(createRequestInterceptor());
+  const response = instance.interceptors.response.use(
     createResponseSuccessInterceptor(),
-    createResponseErrorInterceptor(endpointErrors, apiSpec, workerId, errorsFile, customPatterns)
+    createResponseErrorInterceptor()
   );
-  log.info('Set up interceptor on exported axios instance');
+  trackedInstances.set(instance, { request, response });
+
+  log.debug(`Tracking axios instance (${trackedInstances.size} instances tracked)`);
+  return instance;
 }
 
 /**
- * Create a request interceptor function for tracking API requests
+ * Remove the tracking interceptors from an axios instance
  */
-function createRequestInterceptor(
-  hitEndpoints: Set<string>,
-  apiSpec: IOpenAPIDocument | null,
-  workerId: string,
-  hitEndpointsFile: string,
-  customPatterns?: IPathPattern[],
-  recordPathCallback?: (path: string) => void
-): (config: InternalAxiosRequestConfig) => InternalAxiosRequestConfig {
-  return (config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
-    try {
-      if (!config.url) {
-        log.warn('Skipping request tracking: URL is missing from request config');
-        return config;
-      }
+export function untrackAxiosInstance(instance: AxiosInstance): void {
+  const ids = trackedInstances.get(instance);
+  if (!ids) {
+    return;
+  }
 
-      const url = config.url;
-      log.debug(`Intercepted request to: ${url}`);
-
-      let fullUrl;
-      try {
-        fullUrl = new URL(url);
-      } catch (_e) {
-        // Handle relative URLs
-        const baseUrl = config.baseURL || 'http://localhost';
-        fullUrl = new URL(url, baseUrl);
-        log.debug(`Converted relative URL to: ${fullUrl.toString()}`);
-      }
+  instance.interceptors.request.eject(ids.request);
+  instance.interceptors.response.eject(ids.response);
+  trackedInstances.delete(instance);
+}
 
-      let normalizedPath;
-      try {
-        normalizedPath = normalizePath(fullUrl.pathname, apiSpec, customPatterns);
-      } catch (error) {
-        log.error(
-          `Failed to normalize path '${fullUrl.pathname}': ${error instanceof Error ? error.message : String(error)}`
-        );
-        normalizedPath = fullUrl.pathname; // Fall back to the original path
-      }
+/**
+ * Remove the tracking interceptors from every axios instance
+ * and stop tracking instances created through axios.create
+ */
+export function untrackAllAxiosInstances(): void {
+  unhookAxiosCreate();
 
-      const method = (config.method || 'GET').toUpperCase();
-      const key = `${method} ${normalizedPath}`;
+  for (const instance of [...trackedInstances.keys()]) {
+    untrackAxiosInstance(instance);
+  }
 
-      // Log the OpenAPI spec info for debugging
-      if (apiSpec) {
-        log.debug(`OpenAPI spec version: ${apiSpec.openapi || apiSpec.swagger || 'unknown'}`);
-        log.debug(`OpenAPI spec has ${Object.keys(apiSpec.paths || {}).length} paths`);
-      } else {
-        log.debug('No OpenAPI spec available');
-      }
+  activeContext = null;
+}
 
-      // Apply improved deduplication logic
-      if (key.includes('{') && key.includes('}')) {
-        // This is a template endpoint
+/**
+ * Track every axios instance created through axios.create from now on
+ */
+export function hookAxiosCreate(): void {
+  if (originalCreate) {
+    return;
+  }
 
-        // Add the template endpoint
-        hitEndpoints.add(key);
+  const create = axios.create;
+  originalCreate = create;
+  axios.create = (...args: Parameters<typeof axios.create>): AxiosInstance =>
+    trackAxiosInstance(create.apply(axios, args));
 
-        // Find and remove any concrete endpoints that match this template
-        const endpointsToRemove: string[] = [];
+  log.info('Tracking all axios instances created through axios.create');
+}
 
-        hitEndpoints.forEach((existingEndpoint) => {
-          // Skip if it's not a concrete endpoint (it's another template)
-          if (existingEndpoint.includes('{') && existingEndpoint.includes('}')) {
-            return;
-          }
+/**
+ * Restore the original axios.create
+ */
+export function unhookAxiosCreate(): void {
+  if (!originalCreate) {
+    return;
+  }
 
-          // Check if this concrete endpoint matches our template
-          if (endpointMatchesTemplate(existingEndpoint, key)) {
-            endpointsToRemove.push(existingEndpoint);
-          }
-        });
+  axios.create = originalCreate;
+  originalCreate = null;
+}
 
-        // Remove the matching concrete endpoints
-        for (const endpoint of endpointsToRemove) {
-          hitEndpoints.delete(endpoint);
-        }
-      } else {
-        // This is a concrete endpoint
-
-        // Check if a template version already exists that matches this endpoint
-        let hasMatchingTemplate = false;
-
-        for (const existingEndpoint of hitEndpoints) {
-          // Skip if it's not a template
-          if (!existingEndpoint.includes('{') || !existingEndpoint.includes('}')) {
-            continue;
-          }
-
-          // Check if this template matches our concrete endpoint
-          if (endpointMatchesTemplate(key, existingEndpoint)) {
-            hasMatchingTemplate = true;
-            break;
-          }
-        }
-
-        // Only add if no matching template exists
-        if (!hasMatchingTemplate) {
-          hitEndpoints.add(key);
-        }
+/**
+ * Create a request interceptor function for tracking API requests
+ */
+function createRequestInterceptor(): (
+  config: InternalAxiosRequestConfig
+) => InternalAxiosRequestConfig {
+  return (config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
+    try {
+      const context = activeContext;
+      if (!context) {
+        return config;
       }
 
-      // Log at debug level rather than info to reduce noise
-      if (normalizedPath !== fullUrl.pathname) {
-        log.debug(
-          `Worker ${workerId} captured API request: ${key} (normalized from ${fullUrl.pathname})`
-        );
-      } else {
-        log.debug(`Worker ${workerId} captured API request: ${key}`);
+      if (!config.url) {
+        log.warn('Skipping request tracking: URL is missing from request config');
+        return config;
       }
 
-      saveHitEndpoints(hitEndpointsFile, hitEndpoints, workerId);
-
-      // Also record the original path for pattern learning if callback is provided
-      if (recordPathCallback) {
-        // Record the original path for pattern learning
-        recordPathCallback(fullUrl.pathname);
-
-        // Log less frequently to reduce verbosity
-        if (hitEndpoints.size % 100 === 0) {
-          log.info(`Worker ${workerId} has captured ${hitEndpoints.size} API requests so far`);
-        }
-      }
+      log.debug(`Intercepted request to: ${config.url}`);
+
+      // getUri combines baseURL, url and the serialized params
+      const fullUrl = resolveRequestUrl(axios.getUri(config));
+      trackRequest(context, config.method || 'GET', fullUrl, {
+        headers: config.headers?.toJSON(true) as TRequestHeaders,
+        body: config.data,
+      });
+
+      // The axios http adapter goes through http.request, which must not count it again
+      sentRequests.set(config, {
+        url: fullUrl,
+        startTime: Date.now(),
+        releaseHandledRequest: markRequestHandled(config.method || 'GET', fullUrl),
+      });
     } catch (err) {
       if (err instanceof Error) {
         log.error('Error in axios interceptor:', err.message);
@@ -203,153 +193,60 @@ function createRequestInterceptor(
 }
 
 /**
- * Helper function to determine if a concrete endpoint matches a template
+ * Create a response success interceptor function for tracking response statuses
  */
-function endpointMatchesTemplate(concreteEndpoint: string, templateEndpoint: string): boolean {
-  const [concreteMethod, concretePath] = concreteEndpoint.split(' ', 2);
-  const [templateMethod, templatePath] = templateEndpoint.split(' ', 2);
-
-  // Methods must match
-  if (concreteMethod !== templateMethod) {
-    return false;
-  }
-
-  // Split paths into segments
-  const concreteSegments = concretePath.split('/').filter(Boolean);
-  const templateSegments = templatePath.split('/').filter(Boolean);
-
-  // Must have same number of segments
-  if (concreteSegments.length !== templateSegments.length) {
-    return false;
-  }
-
-  // Compare each segment
-  for (let i = 0; i < templateSegments.length; i++) {
-    const templateSegment = templateSegments[i];
-    const concreteSegment = concreteSegments[i];
-
-    // If template segment is a parameter, it matches anything
-    if (templateSegment.startsWith('{') && templateSegment.endsWith('}')) {
-      // Check if concrete segment looks like a MongoDB ID
-      if (/^[0-9a-f]{24}$/.test(concreteSegment)) {
-        continue; // Match - parameter with MongoDB ID
+function createResponseSuccessInterceptor(): (response: AxiosResponse) => AxiosResponse {
+  return (response: AxiosResponse): AxiosResponse => {
+    try {
+      const context = activeContext;
+      if (context && response.config) {
+        const { config, status } = response;
+        const fullUrl = getRequestUrl(config);
+        sentRequests.get(config)?.releaseHandledRequest();
+
+        trackResponse(context, config.method || 'GET', fullUrl, status, undefined, {
+          body: response.data,
+          contentType: getContentType(response),
+          ...getResponseProfile(response),
+        });
+      }
+    } catch (err) {
+      if (err instanceof Error) {
+        log.error('Error in axios response interceptor:', err.message);
+      } else {
+        log.error('Error in axios response interceptor:', String(err));
       }
-
-      // For other parameter types, we'll just assume it's a match
-      continue;
-    }
-
-    // For non-parameter segments, they must match exactly
-    if (templateSegment !== concreteSegment) {
-      return false;
     }
-  }
-
-  // All segments matched
-  return true;
-}
 
-/**
- * Create a response success interceptor function
- */
-function createResponseSuccessInterceptor(): (response: AxiosResponse) => AxiosResponse {
-  return (response: AxiosResponse): AxiosResponse => {
-    // Just pass through successful responses
     return response;
   };
 }
 
 /**
- * Create a response error interceptor function for tracking server errors
+ * Create a response error interceptor function for tracking error statuses
  */
-function createResponseErrorInterceptor(
-  endpointErrors: Record<string, IServerErrorRecord>,
-  apiSpec: IOpenAPIDocument | null,
-  workerId: string,
-  errorsFile: string,
-  customPatterns?: IPathPattern[]
-): (error: AxiosError) => Promise<never> {
+function createResponseErrorInterceptor(): (error: AxiosError) => Promise<never> {
   return (error: AxiosError): Promise<never> => {
     try {
-      if (error.response) {
+      const context = activeContext;
+      if (context && error.response) {
         const { status, config } = error.response;
+        const fullUrl = getRequestUrl(config);
+        sentRequests.get(config)?.releaseHandledRequest();
 
-        // Only track internal server errors (5xx)
-        if (status >= 500 && status < 600) {
-          const url = config.url || '';
-          let fullUrl;
-
-          try {
-            fullUrl = new URL(url || '', config.baseURL || 'http://localhost');
-          } catch (_e) {
-            // Handle relative URLs
-            const baseUrl = config.baseURL || 'http://localhost';
-            fullUrl = new URL(url || '', baseUrl);
-          }
-
-          let normalizedPath;
-          try {
-            normalizedPath = normalizePath(fullUrl.pathname, apiSpec, customPatterns);
-          } catch (error) {
-            log.error(
-              `Failed to normalize path '${fullUrl.pathname}' in error interceptor: ${error instanceof Error ? error.message : String(error)}`
-            );
-            normalizedPath = fullUrl.pathname; // Fall back to the original path
-          }
-
-          const method = (config.method || 'GET').toUpperCase();
-          const key = `${method} ${normalizedPath}`;
-
-          // Check if we have a template version of this endpoint
-          let templateKey = key;
-
-          if (!key.includes('{') && !key.includes('}')) {
-            // This is a concrete endpoint, let's see if we have a template version
-            for (const existingKey of Object.keys(endpointErrors)) {
-              if (
-                existingKey.includes('{') &&
-                existingKey.includes('}') &&
-                endpointMatchesTemplate(key, existingKey)
-              ) {
-                templateKey = existingKey;
-                break;
-              }
-            }
-          }
-
-          // Initialize error record if it doesn't exist
-          if (!endpointErrors[templateKey]) {
-            endpointErrors[templateKey] = {
-              count: 0,
-              statusCodes: {},
-            };
-          }
-
-          // Update error counts
-          endpointErrors[templateKey].count++;
-
-          // Update status code counts
-          const statusStr = status.toString();
-          endpointErrors[templateKey].statusCodes[statusStr] =
-            (endpointErrors[templateKey].statusCodes[statusStr] || 0) + 1;
-
-          // Store the last error message
-          if (error.message) {
-            endpointErrors[templateKey].lastError = error.message.substring(0, 200); // Limit size
-          }
-
-          // Log at debug level rather than info to reduce noise
-          if (normalizedPath !== fullUrl.pathname) {
-            log.debug(
-              `Worker ${workerId} captured internal server error: ${key} (normalized from ${fullUrl.pathname}) (${status})`
-            );
-          } else {
-            log.debug(`Worker ${workerId} captured internal server error: ${key} (${status})`);
-          }
-
-          // Save errors to file
-          saveErrors(errorsFile, endpointErrors, workerId);
-        }
+        trackResponse(context, config.method || 'GET', fullUrl, status, error.message, {
+          body: error.response.data,
+          contentType: getContentType(error.response),
+          ...getResponseProfile(error.response),
+        });
+      } else if (context && error.config) {
+        // No response at all: connection refused, timeout, DNS failure or cancellation
+        const { config } = error;
+        const fullUrl = getRequestUrl(config);
+        const code = getNetworkErrorCode(error);
+        sentRequests.get(config)?.releaseHandledRequest();
+
+        trackNetworkFailure(context, config.method || 'GET', fullUrl, code, error.message);
       }
     } catch (err) {
       if (err instanceof Error) {
@@ -363,3 +260,40 @@ function createResponseErrorInterceptor(
     return Promise.reject(error);
   };
 }
+
+/**
+ * Get the URL a request was tracked under, so that its response settles the same endpoint
+ */
+function getRequestUrl(config: InternalAxiosRequestConfig): URL {
+  return sentRequests.get(config)?.url || resolveRequestUrl(axios.getUri(config));
+}
+
+/**
+ * Get the code of an axios error without response, preferring the code of the underlying
+ * socket error (e.g. ECONNREFUSED) over the generic axios code
+ */
+function getNetworkErrorCode(error: AxiosError): string {
+  const cause = (error as AxiosError & { cause?: { code?: string } }).cause;
+  return cause?.code || error.code || 'UNKNOWN';
+}
+
+/**
+ * Get the time an axios response took and its size, from the content-length header when sent
+ */
+function getResponseProfile(response: AxiosResponse): Pick<ICapturedResponse, 'duration' | 'size'> {
+  const startTime = response.config ? sentRequests.get(response.config)?.startTime : undefined;
+  const contentLength = response.headers?.['content-length'];
+
+  return {
+    duration: startTime !== undefined ? Date.now() - startTime : undefined,
+    size: contentLength ? Number(contentLength) : undefined,
+  };
+}
+
+/**
+ * Get the content type of an axios response
+ */
+function getContentType(response: AxiosResponse): string | undefined {
+  const contentType = response.headers?.['content-type'];
+  return contentType ? String(contentType) : undefined;
+}
@@ -0,0 +1,350 @@
+import logger from '@wdio/logger';
+import { ICapturedRequest, ICapturedResponse, ITrackingContext } from '../types/index.js';
+import {
+  resolveRequestUrl,
+  trackNetworkFailure,
+  trackRequest,
+  trackResponse,
+} from './request-tracker.js';
+
+// Create a logger instance
+const log = logger('openapi:browser-network');
+
+// Resource types reported by the Chrome DevTools Protocol that represent API calls
+const CDP_API_RESOURCE_TYPES = ['XHR', 'Fetch'];
+
+// Response mime types that belong to page assets rather than API calls
+const STATIC_ASSET_MIME_TYPE = /^(text\/html|text\/css|image\/|font\/|audio\/|video\/)|javascript/i;
+
+type TNetworkListener = (params: unknown) => void;
+
+/**
+ * WebDriver BiDi header or cookie entry
+ */
+interface IBidiNameValue {
+  name?: string;
+  value?: { type?: string; value?: string };
+}
+
+/**
+ * Minimal shape of a WebdriverIO browser needed to listen to network events
+ */
+export interface IBrowserEventSource {
+  on(event: string, listener: TNetworkListener): unknown;
+  off?(event: string, listener: TNetworkListener): unknown;
+  isBidi?: boolean;
+  sessionSubscribe?(params: { events: string[] }): Promise<unknown>;
+}
+
+/**
+ * WebDriver BiDi `network.responseCompleted` event parameters (fields we use)
+ */
+interface IBidiResponseCompleted {
+  navigation?: string | null;
+  request?: {
+    url?: string;
+    method?: string;
+    headers?: IBidiNameValue[];
+    cookies?: IBidiNameValue[];
+    timings?: { requestTime?: number; responseEnd?: number }; // Milliseconds
+  };
+  response?: { url?: string; status?: number; mimeType?: string; content?: { size?: number } };
+}
+
+/**
+ * WebDriver BiDi `network.fetchError` event parameters (fields we use)
+ */
+interface IBidiFetchError {
+  navigation?: string | null;
+  request?: { url?: string; method?: string };
+  errorText?: string;
+}
+
+/**
+ * DevTools `Network.loadingFailed` event parameters (fields we use)
+ */
+interface ICdpLoadingFailed {
+  requestId?: string;
+  type?: string;
+  errorText?: string;
+  canceled?: boolean;
+}
+
+/**
+ * DevTools `Network.requestWillBeSent` event parameters (fields we use)
+ */
+interface ICdpRequestWillBeSent {
+  requestId?: string;
+  type?: string;
+  timestamp?: number; // Seconds
+  request?: { url?: string; method?: string; headers?: Record<string, string>; postData?: string };
+}
+
+/**
+ * DevTools `Network.responseReceived` event parameters (fields we use)
+ */
+interface ICdpResponseReceived {
+  requestId?: string;
+  type?: string;
+  timestamp?: number; // Seconds
+  response?: {
+    url?: string;
+    status?: number;
+    mimeType?: string;
+    headers?: Record<string, string>;
+  };
+}
+
+/**
+ * Subscribe to the browser's network events and track API calls made by the application
+ * Supports WebDriver BiDi sessions and DevTools (CDP) events
+ * @returns A function that removes the registered listeners
+ */
+export async function setupBrowserNetworkTracking(
+  browser: IBrowserEventSource,
+  context: ITrackingContext
+): Promise<() => void> {
+  const listeners: Array<[string, TNetworkListener]> = [];
+
+  // WebDriver BiDi: responseCompleted carries both the request and the response
+  listeners.push([
+    'network.responseCompleted',
+    (params: unknown): void => {
+      const { navigation, request, response } = params as IBidiResponseCompleted;
+
+      // Page navigations and static assets are not API calls
+      if (navigation || STATIC_ASSET_MIME_TYPE.test(response?.mimeType || '')) {
+        return;
+      }
+
+      const { requestTime, responseEnd } = request?.timings || {};
+      recordBrowserRequest(
+        context,
+        request?.method,
+        request?.url,
+        response?.status,
+        { headers: getBidiRequestHeaders(request?.headers, request?.cookies) },
+        {
+          duration: requestTime && responseEnd ? responseEnd - requestTime : undefined,
+          size: response?.content?.size,
+        }
+      );
+    },
+  ]);
+  listeners.push([
+    'network.fetchError',
+    (params: unknown): void => {
+      const { navigation, request, errorText } = params as IBidiFetchError;
+      if (!navigation) {
+        recordBrowserFailure(context, request?.method, request?.url, errorText);
+      }
+    },
+  ]);
+
+  // DevTools: the method, headers and body are only known from requestWillBeSent
+  const cdpRequests = new Map<
+    string,
+    { method: string; url?: string; timestamp?: number } & ICapturedRequest
+  >();
+  listeners.push([
+    'Network.requestWillBeSent',
+    (params: unknown): void => {
+      const { requestId, type, timestamp, request } = params as ICdpRequestWillBeSent;
+      if (requestId && type && CDP_API_RESOURCE_TYPES.includes(type)) {
+        cdpRequests.set(requestId, {
+          method: request?.method || 'GET',
+          url: request?.url,
+          timestamp,
+          headers: request?.headers,
+          body: request?.postData,
+        });
+      }
+    },
+  ]);
+  listeners.push([
+    'Network.responseReceived',
+    (params: unknown): void => {
+      const { requestId, type, timestamp, response } = params as ICdpResponseReceived;
+      if (!requestId || !type || !CDP_API_RESOURCE_TYPES.includes(type)) {
+        return;
+      }
+
+      const sentRequest = cdpRequests.get(requestId);
+      cdpRequests.delete(requestId);
+
+      // The latency is the time until the response headers arrived
+      const startTime = sentRequest?.timestamp;
+      const contentLength = getHeaderValue(response?.headers, 'content-length');
+      recordBrowserRequest(
+        context,
+        sentRequest?.method,
+        response?.url,
+        response?.status,
+        { headers: sentRequest?.headers, body: sentRequest?.body },
+        {
+          duration: startTime && timestamp ? (timestamp - startTime) * 1000 : undefined,
+          size: contentLength ? Number(contentLength) : undefined,
+        }
+      );
+    },
+  ]);
+  listeners.push([
+    'Network.loadingFailed',
+    (params: unknown): void => {
+      const { requestId, errorText, canceled } = params as ICdpLoadingFailed;
+      const sentRequest = requestId ? cdpRequests.get(requestId) : undefined;
+      if (!requestId || !sentRequest) {
+        return;
+      }
+
+      cdpRequests.delete(requestId);
+      recordBrowserFailure(
+        context,
+        sentRequest.method,
+        sentRequest.url,
+        canceled ? 'ABORTED' : errorText,
+        sentRequest
+      );
+    },
+  ]);
+
+  for (const [event, listener] of listeners) {
+    browser.on(event, listener);
+  }
+
+  // BiDi sessions only emit network events after an explicit subscription
+  if (browser.isBidi && typeof browser.sessionSubscribe === 'function') {
+    try {
+      await browser.sessionSubscribe({
+        events: ['network.responseCompleted', 'network.fetchError'],
+      });
+      log.info('Subscribed to WebDriver BiDi network events');
+    } catch (err) {
+      log.warn(
+        'Failed to subscribe to WebDriver BiDi network events:',
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+  }
+
+  log.info('Set up request tracking on browser network events');
+
+  return (): void => {
+    if (typeof browser.off !== 'function') {
+      return;
+    }
+
+    for (const [event, listener] of listeners) {
+      browser.off(event, listener);
+    }
+    log.info('Removed browser network event listeners');
+  };
+}
+
+/**
+ * Record a request observed in the browser as a hit, together with its response status
+ */
+function recordBrowserRequest(
+  context: ITrackingContext,
+  method: string | undefined,
+  url: string | undefined,
+  status: number | undefined,
+  request: ICapturedRequest = {},
+  response: ICapturedResponse = {}
+): void {
+  try {
+    if (!url || !/^https?:/i.test(url)) {
+      return;
+    }
+
+    const requestMethod = method || 'GET';
+    const fullUrl = resolveRequestUrl(url);
+    log.debug(`Browser request to: ${fullUrl.toString()} (${status})`);
+
+    trackRequest(context, requestMethod, fullUrl, request);
+    if (status) {
+      trackResponse(
+        context,
+        requestMethod,
+        fullUrl,
+        status,
+        `Request failed with status code ${status}`,
+        response
+      );
+    }
+  } catch (err) {
+    log.error(
+      'Error tracking browser network event:',
+      err instanceof Error ? err.message : String(err)
+    );
+  }
+}
+
+/**
+ * Record a request observed in the browser that never got a response
+ * Browser error texts such as `net::ERR_CONNECTION_REFUSED` are used as error codes
+ */
+function recordBrowserFailure(
+  context: ITrackingContext,
+  method: string | undefined,
+  url: string | undefined,
+  errorText: string | undefined,
+  request: ICapturedRequest = {}
+): void {
+  try {
+    if (!url || !/^https?:/i.test(url)) {
+      return;
+    }
+
+    const requestMethod = method || 'GET';
+    const fullUrl = resolveRequestUrl(url);
+    const code = (errorText || 'UNKNOWN').replace(/^net::/, '');
+    log.debug(`Browser request to: ${fullUrl.toString()} failed (${code})`);
+
+    trackRequest(context, requestMethod, fullUrl, request);
+    trackNetworkFailure(context, requestMethod, fullUrl, code, errorText);
+  } catch (err) {
+    log.error(
+      'Error tracking browser network failure:',
+      err instanceof Error ? err.message : String(err)
+    );
+  }
+}
+
+/**
+ * Get a header value from a DevTools header record, whose names keep their original case
+ */
+function getHeaderValue(
+  headers: Record<string, string> | undefined,
+  name: string
+): string | undefined {
+  const entry = Object.entries(headers || {}).find(
+    ([headerName]) => headerName.toLowerCase() === name
+  );
+  return entry ? entry[1] : undefined;
+}
+
+/**
+ * Convert BiDi request headers and cookies into a header map with a Cookie header
+ */
+function getBidiRequestHeaders(
+  headers: IBidiNameValue[] | undefined,
+  cookies: IBidiNameValue[] | undefined
+): ICapturedRequest['headers'] {
+  const result: Record<string, string> = {};
+
+  for (const { name, value } of headers || []) {
+    if (name) {
+      result[name.toLowerCase()] = value?.value ?? '';
+    }
+  }
+
+  const cookiePairs = (cookies || [])
+    .filter(({ name }) => !!name)
+    .map(({ name, value }) => `${name}=${value?.value ?? ''}`);
+  if (cookiePairs.length > 0) {
+    result.cookie = cookiePairs.join('; ');
+  }
+
+  return result;
+}
@@ -0,0 +1,222 @@
+import logger from '@wdio/logger';
+import { ICapturedResponse, ITrackingContext, TRequestHeaders } from '../types/index.js';
+import {
+  resolveRequestUrl,
+  trackNetworkFailure,
+  trackRequest,
+  trackResponse,
+  trackResponseBody,
+} from './request-tracker.js';
+
+// Create a logger instance
+const log = logger('openapi:fetch-interceptors');
+
+// The original global fetch, kept so it can be restored on teardown
+let originalFetch: typeof globalThis.fetch | null = null;
+
+// Context the wrapped fetch reports to (updated on every setup call)
+let fetchContext: ITrackingContext | null = null;
+
+/**
+ * Wrap the global fetch (undici on Node 18+) to track API requests
+ * Calling this again only swaps the tracking context, fetch is never wrapped twice
+ */
+export function setupFetchInterceptor(context: ITrackingContext): void {
+  fetchContext = context;
+
+  if (originalFetch) {
+    log.debug('Global fetch is already wrapped, updated tracking context');
+    return;
+  }
+
+  if (typeof globalThis.fetch !== 'function') {
+    log.warn('Global fetch is not available, skipping fetch request tracking');
+    return;
+  }
+
+  originalFetch = globalThis.fetch;
+  globalThis.fetch = createTrackedFetch(originalFetch);
+  log.info('Set up request tracking on global fetch');
+}
+
+/**
+ * Restore the original global fetch
+ */
+export function restoreFetch(): void {
+  if (!originalFetch) {
+    return;
+  }
+
+  globalThis.fetch = originalFetch;
+  originalFetch = null;
+  fetchContext = null;
+  log.info('Restored original global fetch');
+}
+
+/**
+ * Create a fetch function that tracks requests before delegating to the original fetch
+ */
+function createTrackedFetch(baseFetch: typeof globalThis.fetch): typeof globalThis.fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const context = fetchContext;
+    let method = 'GET';
+    let fullUrl: URL | null = null;
+
+    try {
+      if (context) {
+        const { url, method: requestMethod, headers } = describeFetchInput(input, init);
+        method = requestMethod;
+        log.debug(`Intercepted fetch request to: ${url}`);
+
+        fullUrl = resolveRequestUrl(url);
+        // Bodies of Request objects are streams, only string bodies passed in init are read
+        trackRequest(context, method, fullUrl, { headers, body: init?.body });
+      }
+    } catch (err) {
+      log.error('Error in fetch interceptor:', err instanceof Error ? err.message : String(err));
+    }
+
+    const startTime = Date.now();
+    let response: Response;
+    try {
+      response = await baseFetch(input, init);
+    } catch (err) {
+      // No response at all: connection refused, timeout, DNS failure or abort
+      if (context && fullUrl) {
+        const code = getFetchErrorCode(err);
+        trackNetworkFailure(
+          context,
+          method,
+          fullUrl,
+          code,
+          err instanceof Error ? err.message : String(err)
+        );
+      }
+      throw err;
+    }
+
+    try {
+      if (context && fullUrl) {
+        // The latency is the time until the response headers arrived
+        const duration = Date.now() - startTime;
+        const contentLength = response.headers?.get('content-length');
+        const contentType = response.headers?.get('content-type') || undefined;
+        trackResponse(
+          context,
+          method,
+          fullUrl,
+          response.status,
+          `Request failed with status code ${response.status}`,
+          { contentType, duration, size: contentLength ? Number(contentLength) : undefined }
+        );
+
+        // The body is validated once it arrived, without holding back the response
+        const { status } = response;
+        const requestUrl = fullUrl;
+        readResponseBody(context, response)
+          .then((captured) => {
+            if (captured.body !== undefined) {
+              trackResponseBody(context, method, requestUrl, status, captured);
+            }
+          })
+          .catch((err) =>
+            log.error(
+              'Error validating fetch response body:',
+              err instanceof Error ? err.message : String(err)
+            )
+          );
+      }
+    } catch (err) {
+      log.error(
+        'Error in fetch response interceptor:',
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Get the code of a failed fetch: the code of the underlying socket error (e.g. ECONNREFUSED),
+ * or ABORTED/ETIMEDOUT for aborted requests
+ */
+function getFetchErrorCode(err: unknown): string {
+  const error = err as { name?: string; code?: string; cause?: { code?: string } } | undefined;
+
+  if (error?.name === 'AbortError') {
+    return 'ABORTED';
+  }
+
+  if (error?.name === 'TimeoutError') {
+    return 'ETIMEDOUT';
+  }
+
+  return error?.cause?.code || error?.code || 'UNKNOWN';
+}
+
+/**
+ * Read a copy of a JSON response body when responses are validated
+ * The body returned to the caller is left untouched
+ */
+async function readResponseBody(
+  context: ITrackingContext,
+  response: Response
+): Promise<ICapturedResponse> {
+  const contentType = response.headers?.get('content-type') || undefined;
+  if (!context.validateResponses || !contentType || !/[/+]json\b/i.test(contentType)) {
+    return { contentType };
+  }
+
+  try {
+    return { body: await response.clone().text(), contentType };
+  } catch (err) {
+    log.debug(
+      'Could not read fetch response body:',
+      err instanceof Error ? err.message : String(err)
+    );
+    return { contentType };
+  }
+}
+
+/**
+ * Extract the URL and HTTP method from the arguments passed to fetch
+ */
+function describeFetchInput(
+  input: RequestInfo | URL,
+  init?: RequestInit
+): { url: string; method: string; headers: TRequestHeaders } {
+  if (typeof input === 'string') {
+    return { url: input, method: init?.method || 'GET', headers: toHeaderRecord(init?.headers) };
+  }
+
+  if (input instanceof URL) {
+    return {
+      url: input.href,
+      method: init?.method || 'GET',
+      headers: toHeaderRecord(init?.headers),
+    };
+  }
+
+  // Request object
+  return {
+    url: input.url,
+    method: init?.method || input.method || 'GET',
+    headers: toHeaderRecord(init?.headers ?? input.headers),
+  };
+}
+
+/**
+ * Convert any fetch headers init (Headers, pairs or a record) into a plain record
+ */
+function toHeaderRecord(headers: HeadersInit | undefined): TRequestHeaders {
+  const result: TRequestHeaders = {};
+  if (!headers) {
+    return result;
+  }
+
+  new Headers(headers).forEach((value, name) => {
+    result[name] = value;
+  });
+  return result;
+}
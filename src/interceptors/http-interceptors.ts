@@ -0,0 +1,253 @@
+import http, { ClientRequest, IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { syncBuiltinESMExports } from 'node:module';
+import logger from '@wdio/logger';
+import { ITrackingContext } from '../types/index.js';
+import { trackNetworkFailure, trackRequest, trackResponse } from './request-tracker.js';
+
+// Create a logger instance
+const log = logger('openapi:http-interceptors');
+
+// How long a request announced by another capture layer stays claimable (ms)
+const HANDLED_REQUEST_TTL = 30000;
+
+type TRequestFunction = typeof http.request;
+type TGetFunction = typeof http.get;
+
+/**
+ * Original request functions of a patched core module
+ */
+interface IOriginalFunctions {
+  request: TRequestFunction;
+  get: TGetFunction;
+}
+
+// Original functions of every patched module, kept so they can be restored on teardown
+const originalFunctions = new Map<typeof http | typeof https, IOriginalFunctions>();
+
+// Context the patched modules report to (updated on every setup call)
+let httpContext: ITrackingContext | null = null;
+
+/**
+ * Request announced by another capture layer, until the http layer claims it or it is released
+ */
+interface IHandledRequestMark {
+  time: number;
+}
+
+// Requests already tracked by a higher level client (axios), keyed by method and URL
+const handledRequests = new Map<string, IHandledRequestMark[]>();
+
+/**
+ * Patch http.request/http.get and https.request/https.get to track API requests
+ * Calling this again only swaps the tracking context, the modules are never patched twice
+ */
+export function setupHttpInterceptors(context: ITrackingContext): void {
+  httpContext = context;
+
+  if (originalFunctions.size > 0) {
+    log.debug('http/https modules are already patched, updated tracking context');
+    return;
+  }
+
+  patchModule(http);
+  patchModule(https);
+
+  // Make named ESM imports (import { request } from 'node:http') see the patched functions
+  syncBuiltinESMExports();
+  log.info('Set up request tracking on http/https modules');
+}
+
+/**
+ * Restore the original http/https request functions
+ */
+export function restoreHttpModules(): void {
+  if (originalFunctions.size === 0) {
+    return;
+  }
+
+  for (const [module, originals] of originalFunctions) {
+    module.request = originals.request;
+    module.get = originals.get;
+  }
+
+  originalFunctions.clear();
+  handledRequests.clear();
+  httpContext = null;
+  syncBuiltinESMExports();
+  log.info('Restored original http/https request functions');
+}
+
+/**
+ * Announce a request that is already tracked by another capture layer
+ * Clients such as axios send their requests through http.request, so the http layer
+ * has to skip them to avoid counting the same request twice
+ * @returns A function releasing the announcement once the request settled, for requests that
+ *   never reached http.request (mock adapters, cancelled or failed before sending)
+ */
+export function markRequestHandled(method: string, fullUrl: URL): () => void {
+  if (originalFunctions.size === 0) {
+    return () => undefined;
+  }
+
+  const now = Date.now();
+  const key = getHandledRequestKey(method, fullUrl);
+  const mark: IHandledRequestMark = { time: now };
+  const marks = (handledRequests.get(key) || []).filter(
+    ({ time }) => now - time < HANDLED_REQUEST_TTL
+  );
+  marks.push(mark);
+  handledRequests.set(key, marks);
+
+  return () => releaseHandledRequest(key, mark);
+}
+
+/**
+ * Drop an announcement the http layer did not claim
+ */
+function releaseHandledRequest(key: string, mark: IHandledRequestMark): void {
+  const marks = handledRequests.get(key);
+  const index = marks ? marks.indexOf(mark) : -1;
+  if (!marks || index === -1) {
+    return;
+  }
+
+  marks.splice(index, 1);
+  if (marks.length === 0) {
+    handledRequests.delete(key);
+  }
+}
+
+/**
+ * Claim a request previously announced with markRequestHandled
+ */
+function consumeHandledRequest(method: string, fullUrl: URL): boolean {
+  const key = getHandledRequestKey(method, fullUrl);
+  const marks = handledRequests.get(key);
+  if (!marks) {
+    return false;
+  }
+
+  const now = Date.now();
+  const index = marks.findIndex(({ time }) => now - time < HANDLED_REQUEST_TTL);
+  if (index === -1) {
+    handledRequests.delete(key);
+    return false;
+  }
+
+  // Drop the claimed entry together with any expired ones before it
+  marks.splice(0, index + 1);
+  if (marks.length === 0) {
+    handledRequests.delete(key);
+  }
+
+  return true;
+}
+
+/**
+ * Build the key used to match requests between capture layers
+ */
+function getHandledRequestKey(method: string, fullUrl: URL): string {
+  return `${method.toUpperCase()} ${fullUrl.hostname}${fullUrl.pathname}`;
+}
+
+/**
+ * Replace the request and get functions of a core module with tracked versions
+ */
+function patchModule(module: typeof http | typeof https): void {
+  const originals: IOriginalFunctions = {
+    request: module.request,
+    get: module.get,
+  };
+  originalFunctions.set(module, originals);
+
+  module.request = createTrackedFunction(originals.request) as TRequestFunction;
+  // http.get calls the module-internal request function, so it needs its own wrapper
+  module.get = createTrackedFunction(originals.get) as TGetFunction;
+}
+
+/**
+ * Wrap a request function so every ClientRequest it creates is tracked
+ */
+function createTrackedFunction(
+  original: (...args: never[]) => ClientRequest
+): (...args: unknown[]) => ClientRequest {
+  return function trackedRequest(this: unknown, ...args: unknown[]): ClientRequest {
+    const request = original.apply(this, args as never[]);
+
+    try {
+      trackClientRequest(request);
+    } catch (err) {
+      log.error('Error in http interceptor:', err instanceof Error ? err.message : String(err));
+    }
+
+    return request;
+  };
+}
+
+/**
+ * Record a hit for the request and watch its response status
+ */
+function trackClientRequest(request: ClientRequest): void {
+  const context = httpContext;
+  if (!context) {
+    return;
+  }
+
+  const method = request.method || 'GET';
+  const host = String(request.getHeader('host') || request.host || 'localhost');
+  const fullUrl = new URL(request.path || '/', `${request.protocol || 'http:'}//${host}`);
+
+  if (consumeHandledRequest(method, fullUrl)) {
+    log.debug(`Skipping http request already tracked by another client: ${method} ${fullUrl}`);
+    return;
+  }
+
+  log.debug(`Intercepted http request to: ${fullUrl.toString()}`);
+  trackRequest(context, method, fullUrl, { headers: request.getHeaders() });
+  const startTime = Date.now();
+
+  // Runs before any listener of the caller, so those are still registered below
+  request.prependOnceListener('response', (response: IncomingMessage) => {
+    try {
+      const contentLength = response.headers['content-length'];
+      trackResponse(
+        context,
+        method,
+        fullUrl,
+        response.statusCode || 0,
+        `Request failed with status code ${response.statusCode}`,
+        {
+          duration: Date.now() - startTime,
+          size: contentLength ? Number(contentLength) : undefined,
+        }
+      );
+    } catch (err) {
+      log.error(
+        'Error in http response interceptor:',
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+
+    // Without other listeners Node would discard the body itself, keep that behaviour
+    if (request.listenerCount('response') === 0) {
+      response.resume();
+    }
+  });
+
+  request.prependOnceListener('error', (error: NodeJS.ErrnoException) => {
+    try {
+      trackNetworkFailure(context, method, fullUrl, error.code || 'UNKNOWN', error.message);
+    } catch (err) {
+      log.error(
+        'Error in http error interceptor:',
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+
+    // Without other listeners Node would throw the error, keep that behaviour
+    if (request.listenerCount('error') === 0) {
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,822 @@
+import logger from '@wdio/logger';
+import {
+  ICapturedRequest,
+  ICapturedResponse,
+  IEndpointUsageRecord,
+  ITrackingContext,
+  ITrackingTarget,
+} from '../types/index.js';
+import { normalizePath } from '../utils/path-normalizer.js';
+import { saveErrors } from '../utils/file-utils.js';
+import { matchSpecServer, stripServerBasePath } from '../utils/server-resolver.js';
+import { isWebDriverRequest, shouldTrackRequest } from '../utils/request-filter.js';
+import {
+  addSample,
+  addViolation,
+  createEndpointUsageRecord,
+  MAX_PARAMETER_VALUES,
+} from '../lib/endpoint-collector.js';
+import { IRoutedRequest, routeRequest } from '../utils/spec-router.js';
+import { collectBodyPaths } from '../utils/schema-walker.js';
+import { validateSchema } from '../utils/schema-validator.js';
+import { findSpecOperation, getResponseSchema } from '../lib/openapi-processor.js';
+import { validateRequest } from '../lib/request-validator.js';
+
+// Create a logger instance
+const log = logger('openapi:request-tracker');
+
+// Test name used for requests sent outside of any test (e.g. in before hooks)
+export const NO_TEST = '(no test)';
+
+/**
+ * Resolve a request URL (absolute or relative) into a URL object
+ */
+export function resolveRequestUrl(url: string, baseUrl?: string): URL {
+  try {
+    return new URL(url);
+  } catch (_e) {
+    // Handle relative URLs
+    return new URL(url, baseUrl || 'http://localhost');
+  }
+}
+
+/**
+ * Select the spec a request belongs to and apply the request filter rules of the context
+ * Returns null when the request should not be tracked
+ */
+function resolveTrackedRequest(
+  context: ITrackingContext,
+  method: string,
+  fullUrl: URL
+): IRoutedRequest | null {
+  if (isWebDriverRequest(context.webDriverEndpoint, fullUrl)) {
+    log.debug(`Ignoring WebDriver command: ${method.toUpperCase()} ${fullUrl.toString()}`);
+    return null;
+  }
+
+  const route = routeRequest(context, fullUrl);
+
+  // The host routing of an additional spec replaces the default limit to spec hosts
+  if (
+    route &&
+    shouldTrackRequest(
+      context.requestFilter,
+      route.routed ? null : route.target.apiSpec,
+      method,
+      fullUrl
+    )
+  ) {
+    return route;
+  }
+
+  log.debug(`Ignoring filtered request: ${method.toUpperCase()} ${fullUrl.toString()}`);
+  return null;
+}
+
+/**
+ * Normalize the pathname of a request URL against the OpenAPI spec and patterns
+ */
+function normalizeRequestPath(target: ITrackingTarget, pathname: string): string {
+  try {
+    return normalizePath(pathname, target.apiSpec, target.customPatterns);
+  } catch (error) {
+    log.error(
+      `Failed to normalize path '${pathname}': ${error instanceof Error ? error.message : String(error)}`
+    );
+    return pathname; // Fall back to the original path
+  }
+}
+
+/**
+ * Record an API request as a hit endpoint
+ * Shared by every capture layer (axios, fetch, ...) so the bookkeeping stays identical
+ */
+export function trackRequest(
+  context: ITrackingContext,
+  method: string,
+  fullUrl: URL,
+  request: ICapturedRequest = {}
+): void {
+  const { workerId, recordPathCallback } = context;
+
+  const route = resolveTrackedRequest(context, method, fullUrl);
+  if (!route) {
+    return;
+  }
+
+  const { target, pathname } = route;
+  const { hitEndpoints, apiSpec } = target;
+
+  const normalizedPath = normalizeRequestPath(target, pathname);
+  const key = `${method.toUpperCase()} ${normalizedPath}`;
+
+  // Count every call, the endpoint set only tells which endpoints were called
+  const now = new Date().toISOString();
+  target.hitCounts = target.hitCounts || {};
+  const hits = target.hitCounts[key];
+  if (hits) {
+    hits.count++;
+    hits.lastSeen = now;
+  } else {
+    target.hitCounts[key] = { count: 1, firstSeen: now, lastSeen: now };
+  }
+
+  // Remember the request until its response or failure arrives
+  target.pendingRequests = target.pendingRequests || {};
+  target.pendingRequests[key] = (target.pendingRequests[key] || 0) + 1;
+
+  // Log the OpenAPI spec info for debugging
+  if (apiSpec) {
+    log.debug(`OpenAPI spec version: ${apiSpec.openapi || apiSpec.swagger || 'unknown'}`);
+    log.debug(`OpenAPI spec has ${Object.keys(apiSpec.paths || {}).length} paths`);
+  } else {
+    log.debug('No OpenAPI spec available');
+  }
+
+  // Apply improved deduplication logic
+  if (key.includes('{') && key.includes('}')) {
+    // This is a template endpoint
+
+    // Add the template endpoint
+    hitEndpoints.add(key);
+
+    // Find and remove any concrete endpoints that match this template
+    const endpointsToRemove: string[] = [];
+
+    hitEndpoints.forEach((existingEndpoint) => {
+      // Skip if it's not a concrete endpoint (it's another template)
+      if (existingEndpoint.includes('{') && existingEndpoint.includes('}')) {
+        return;
+      }
+
+      // Check if this concrete endpoint matches our template
+      if (endpointMatchesTemplate(existingEndpoint, key)) {
+        endpointsToRemove.push(existingEndpoint);
+      }
+    });
+
+    // Remove the matching concrete endpoints
+    for (const endpoint of endpointsToRemove) {
+      hitEndpoints.delete(endpoint);
+    }
+  } else {
+    // This is a concrete endpoint
+
+    // Check if a template version already exists that matches this endpoint
+    let hasMatchingTemplate = false;
+
+    for (const existingEndpoint of hitEndpoints) {
+      // Skip if it's not a template
+      if (!existingEndpoint.includes('{') || !existingEndpoint.includes('}')) {
+        continue;
+      }
+
+      // Check if this template matches our concrete endpoint
+      if (endpointMatchesTemplate(key, existingEndpoint)) {
+        hasMatchingTemplate = true;
+        break;
+      }
+    }
+
+    // Only add if no matching template exists
+    if (!hasMatchingTemplate) {
+      hitEndpoints.add(key);
+    }
+  }
+
+  // Log at debug level rather than info to reduce noise
+  if (normalizedPath !== fullUrl.pathname) {
+    log.debug(
+      `Worker ${workerId} captured API request: ${key} (normalized from ${fullUrl.pathname})`
+    );
+  } else {
+    log.debug(`Worker ${workerId} captured API request: ${key}`);
+  }
+
+  // Check the request against its operation
+  if (context.validateRequests) {
+    recordRequestViolations(context, target, key, pathname, fullUrl, request);
+  }
+
+  // Remember the server, the query, header and cookie parameters and the body properties
+  recordRequestUsage(context, target, key, fullUrl, request);
+
+  // Also record the original path for pattern learning if callback is provided
+  if (recordPathCallback) {
+    // Record the path relative to the server base path for pattern learning
+    recordPathCallback(stripServerBasePath(pathname, apiSpec));
+
+    // Log less frequently to reduce verbosity
+    if (hitEndpoints.size % 100 === 0) {
+      log.info(`Worker ${workerId} has captured ${hitEndpoints.size} API requests so far`);
+    }
+  }
+}
+
+/**
+ * Count a request against the spec server it was sent to and the parameters and
+ * body properties it sent
+ */
+function recordRequestUsage(
+  context: ITrackingContext,
+  target: ITrackingTarget,
+  key: string,
+  fullUrl: URL,
+  { headers, body }: ICapturedRequest
+): void {
+  const usage = getUsageRecord(target, key);
+
+  const server = matchSpecServer(target.apiSpec, fullUrl);
+  if (server) {
+    usage.servers[server.url] = (usage.servers[server.url] || 0) + 1;
+  }
+
+  // Only names are recorded, values may hold personal data
+  for (const name of new Set(fullUrl.searchParams.keys())) {
+    usage.queryParams[name] = (usage.queryParams[name] || 0) + 1;
+  }
+
+  const recordedValues = new Set(
+    (context.recordParameterValues || []).map((name) => name.toLowerCase())
+  );
+
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const headerName = name.toLowerCase();
+    usage.headers[headerName] = (usage.headers[headerName] || 0) + 1;
+    if (recordedValues.has(headerName)) {
+      recordParameterValue(usage, `header:${headerName}`, String(value));
+    }
+
+    if (headerName === 'cookie') {
+      for (const [cookieName, cookieValue] of parseCookieHeader(String(value))) {
+        usage.cookies[cookieName] = (usage.cookies[cookieName] || 0) + 1;
+        if (recordedValues.has(cookieName.toLowerCase())) {
+          recordParameterValue(usage, `cookie:${cookieName}`, cookieValue);
+        }
+      }
+    }
+  }
+
+  // Only property paths of JSON bodies are recorded, never their values
+  const jsonBody = parseJsonBody(body, getHeader(headers, 'content-type'));
+  if (jsonBody !== undefined) {
+    for (const path of collectBodyPaths(jsonBody)) {
+      usage.bodyProperties[path] = (usage.bodyProperties[path] || 0) + 1;
+    }
+  }
+
+  // Attribute the call to the running test, requests made outside tests are not attributed
+  const test = context.currentTestReference;
+  if (test) {
+    const testId = [test.file, test.suite, test.title].filter(Boolean).join(' › ');
+    usage.tests = usage.tests || {};
+    if (usage.tests[testId]) {
+      usage.tests[testId].count++;
+    } else {
+      usage.tests[testId] = { ...test, count: 1 };
+    }
+  }
+
+  const size = getBodySize(body);
+  if (size !== undefined) {
+    usage.requestSizes = usage.requestSizes || [];
+    addSample(usage.requestSizes, size);
+  }
+}
+
+/**
+ * Get the size in bytes of a request or response body
+ * Parsed JSON bodies are measured serialized, streams and form data are not measured
+ */
+export function getBodySize(body: unknown): number | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+
+  if (typeof body === 'string') {
+    return Buffer.byteLength(body);
+  }
+
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+
+  if (body instanceof URLSearchParams) {
+    return Buffer.byteLength(body.toString());
+  }
+
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return body.size;
+  }
+
+  const prototype = typeof body === 'object' ? Object.getPrototypeOf(body) : undefined;
+  if (Array.isArray(body) || prototype === Object.prototype || prototype === null) {
+    try {
+      return Buffer.byteLength(JSON.stringify(body));
+    } catch (_e) {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get a JSON body as a value: objects are used as they are, strings are parsed when the
+ * content type is JSON (or missing and the string looks like JSON)
+ * Returns undefined for other bodies (form data, streams, binary data, invalid JSON)
+ */
+export function parseJsonBody(body: unknown, contentType?: string): unknown {
+  if (body === undefined || body === null || body === '') {
+    return undefined;
+  }
+
+  if (contentType && !/[/+]json\b/i.test(contentType)) {
+    return undefined;
+  }
+
+  if (typeof body === 'string') {
+    if (!contentType && !/^\s*[[{]/.test(body)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(body);
+    } catch (_e) {
+      log.debug('Request body is not valid JSON, skipping it');
+      return undefined;
+    }
+  }
+
+  const prototype = typeof body === 'object' ? Object.getPrototypeOf(body) : undefined;
+  if (Array.isArray(body) || prototype === Object.prototype || prototype === null) {
+    return body;
+  }
+
+  return undefined;
+}
+
+/**
+ * Get a header value by its case-insensitive name
+ */
+function getHeader(headers: ICapturedRequest['headers'], name: string): string | undefined {
+  const entry = Object.entries(headers || {}).find(
+    ([headerName]) => headerName.toLowerCase() === name
+  );
+
+  return entry && entry[1] !== undefined && entry[1] !== null ? String(entry[1]) : undefined;
+}
+
+/**
+ * Validate a request against the operation it was sent to and record its violations
+ * against the running test. Requests to endpoints missing from the spec are not validated
+ */
+function recordRequestViolations(
+  context: ITrackingContext,
+  target: ITrackingTarget,
+  key: string,
+  pathname: string,
+  fullUrl: URL,
+  { headers, body }: ICapturedRequest
+): void {
+  const { apiSpec } = target;
+  const match = findSpecOperation(apiSpec, key);
+  if (!apiSpec || !match) {
+    return;
+  }
+
+  const headerValues: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (value !== undefined && value !== null) {
+      headerValues[name.toLowerCase()] = String(value);
+    }
+  }
+
+  const violations = validateRequest(apiSpec, match, {
+    path: stripServerBasePath(pathname, apiSpec),
+    query: fullUrl.searchParams,
+    headers: headerValues,
+    cookies: Object.fromEntries(parseCookieHeader(headerValues.cookie || '')),
+    body: parseJsonBody(body, headerValues['content-type']),
+    hasBody: body !== undefined && body !== null && body !== '',
+    recordedValues: (context.recordParameterValues || []).map((name) => name.toLowerCase()),
+  });
+
+  const usage = getUsageRecord(target, key);
+  usage.validatedRequests = (usage.validatedRequests || 0) + 1;
+  if (violations.length === 0) {
+    return;
+  }
+
+  const test = context.currentTest || NO_TEST;
+  usage.invalidRequests = (usage.invalidRequests || 0) + 1;
+  usage.requestViolations = usage.requestViolations || [];
+  for (const violation of violations) {
+    addViolation(usage.requestViolations, { test, ...violation, count: 1 });
+  }
+
+  log.warn(
+    `Request ${key} sent by "${test}" does not match the spec: ${violations
+      .map(({ path, expected, actual }) => `${path} expected ${expected}, got ${actual}`)
+      .join('; ')}`
+  );
+}
+
+/**
+ * Remember a parameter value the user opted into recording
+ */
+function recordParameterValue(usage: IEndpointUsageRecord, param: string, value: string): void {
+  if (!usage.parameterValues) {
+    usage.parameterValues = {};
+  }
+
+  const values = usage.parameterValues[param] || [];
+  if (!values.includes(value) && values.length < MAX_PARAMETER_VALUES) {
+    values.push(value.substring(0, 200)); // Limit size
+  }
+  usage.parameterValues[param] = values;
+}
+
+/**
+ * Split a Cookie header into name/value pairs
+ */
+function parseCookieHeader(header: string): Array<[string, string]> {
+  return header
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair): [string, string] => {
+      const separator = pair.indexOf('=');
+      return separator === -1
+        ? [pair, '']
+        : [pair.slice(0, separator).trim(), pair.slice(separator + 1).trim()];
+    })
+    .filter(([name]) => !!name);
+}
+
+/**
+ * Get the usage record of an endpoint, preferring an existing template version
+ */
+function getUsageRecord(target: ITrackingTarget, key: string): IEndpointUsageRecord {
+  const { endpointUsage } = target;
+  const templateKey = findTemplateKey(key, Object.keys(endpointUsage));
+
+  if (!endpointUsage[templateKey]) {
+    endpointUsage[templateKey] = createEndpointUsageRecord();
+  }
+
+  return endpointUsage[templateKey];
+}
+
+/**
+ * Record the response status of an API request
+ * Every status is counted per operation, client errors (4xx) are split into intentional and
+ * accidental ones and server errors (5xx) are also tracked in detail.
+ * With validateResponses, JSON bodies are checked against the documented response schema
+ */
+export function trackResponse(
+  context: ITrackingContext,
+  method: string,
+  fullUrl: URL,
+  status: number,
+  message?: string,
+  response: ICapturedResponse = {}
+): void {
+  const route = resolveTrackedRequest(context, method, fullUrl);
+  if (!route || !status) {
+    return;
+  }
+
+  const { target, pathname } = route;
+  const key = `${method.toUpperCase()} ${normalizeRequestPath(target, pathname)}`;
+  settlePendingRequest(target, key);
+  const usage = getUsageRecord(target, key);
+
+  const statusStr = status.toString();
+  usage.statusCodes[statusStr] = (usage.statusCodes[statusStr] || 0) + 1;
+  if (status >= 400 && status < 500 && context.trackClientErrors !== false) {
+    recordClientError(context, usage, status, message);
+  }
+  if (context.validateResponses) {
+    recordContractViolations(target, key, usage, status, response);
+  }
+  recordResponseProfile(usage, response);
+
+  log.debug(`Worker ${context.workerId} captured response status: ${key} (${status})`);
+
+  trackServerError(context, method, fullUrl, status, message);
+}
+
+/**
+ * Validate a response body read after its response was tracked, e.g. from a fetch response
+ * handed to the caller before its body arrived
+ */
+export function trackResponseBody(
+  context: ITrackingContext,
+  method: string,
+  fullUrl: URL,
+  status: number,
+  response: ICapturedResponse
+): void {
+  const route = context.validateResponses && resolveTrackedRequest(context, method, fullUrl);
+  if (!route) {
+    return;
+  }
+
+  const { target, pathname } = route;
+  const key = `${method.toUpperCase()} ${normalizeRequestPath(target, pathname)}`;
+  recordContractViolations(target, key, getUsageRecord(target, key), status, response);
+}
+
+/**
+ * Record the latency and body size of a response
+ */
+function recordResponseProfile(usage: IEndpointUsageRecord, response: ICapturedResponse): void {
+  if (response.duration !== undefined && response.duration >= 0) {
+    usage.latencies = usage.latencies || [];
+    addSample(usage.latencies, Math.round(response.duration));
+  }
+
+  const size = response.size ?? getBodySize(response.body);
+  if (size !== undefined) {
+    usage.responseSizes = usage.responseSizes || [];
+    addSample(usage.responseSizes, size);
+  }
+}
+
+/**
+ * Record a request that never got a response (connection refused, timeout, DNS failure, abort)
+ * @param code Error code such as ECONNREFUSED, ETIMEDOUT, ENOTFOUND or ABORTED
+ */
+export function trackNetworkFailure(
+  context: ITrackingContext,
+  method: string,
+  fullUrl: URL,
+  code: string,
+  message?: string
+): void {
+  const route = resolveTrackedRequest(context, method, fullUrl);
+  if (!route) {
+    return;
+  }
+
+  const { target, pathname } = route;
+  const key = `${method.toUpperCase()} ${normalizeRequestPath(target, pathname)}`;
+  settlePendingRequest(target, key);
+  const usage = getUsageRecord(target, key);
+
+  usage.networkFailures = usage.networkFailures || {};
+  usage.networkFailures[code] = (usage.networkFailures[code] || 0) + 1;
+  if (message) {
+    usage.lastNetworkError = message.substring(0, 200); // Limit size
+  }
+
+  log.debug(`Worker ${context.workerId} captured network failure: ${key} (${code})`);
+}
+
+/**
+ * Record the requests still waiting for a response, e.g. when the worker finishes
+ * Each of them is counted once, the pending requests are cleared
+ */
+export function trackInFlightRequests(context: ITrackingContext): number {
+  let total = 0;
+
+  for (const target of [context, ...(context.specTargets || [])]) {
+    const pending = Object.entries(target.pendingRequests || {}).filter(([, count]) => count > 0);
+    if (pending.length === 0) {
+      continue;
+    }
+
+    for (const [key, count] of pending) {
+      const usage = getUsageRecord(target, key);
+      usage.inFlightAtEnd = (usage.inFlightAtEnd || 0) + count;
+      total += count;
+      log.warn(`Worker ${context.workerId} finished with ${count} request(s) in flight: ${key}`);
+    }
+
+    target.pendingRequests = {};
+  }
+
+  return total;
+}
+
+/**
+ * Forget one pending request of an endpoint once its response or failure arrived
+ */
+function settlePendingRequest(target: ITrackingTarget, key: string): void {
+  if (target.pendingRequests && target.pendingRequests[key] > 0) {
+    target.pendingRequests[key]--;
+  }
+}
+
+/**
+ * Count a client error (4xx) as intentional when the running test expects it, either through
+ * expectErrorStatus() or a title matching negativeTestPattern, and as accidental otherwise
+ */
+function recordClientError(
+  context: ITrackingContext,
+  usage: IEndpointUsageRecord,
+  status: number,
+  message?: string
+): void {
+  const { expectedErrorStatuses, negativeTestPattern, currentTest } = context;
+  const intentional =
+    (expectedErrorStatuses !== undefined &&
+      (expectedErrorStatuses.length === 0 || expectedErrorStatuses.includes(status))) ||
+    (!!negativeTestPattern && !!currentTest && negativeTestPattern.test(currentTest));
+
+  const statusStr = status.toString();
+  if (intentional) {
+    usage.intentionalClientErrors = usage.intentionalClientErrors || {};
+    usage.intentionalClientErrors[statusStr] = (usage.intentionalClientErrors[statusStr] || 0) + 1;
+    return;
+  }
+
+  usage.accidentalClientErrors = usage.accidentalClientErrors || {};
+  usage.accidentalClientErrors[statusStr] = (usage.accidentalClientErrors[statusStr] || 0) + 1;
+  const lastError = message || `Request failed with status code ${status}`;
+  usage.lastClientError = lastError.substring(0, 200); // Limit size
+}
+
+/**
+ * Validate a JSON response body against the schema documented for its status
+ * Responses without a JSON body or without a documented schema are not counted
+ */
+function recordContractViolations(
+  target: ITrackingTarget,
+  key: string,
+  usage: IEndpointUsageRecord,
+  status: number,
+  { body, contentType }: ICapturedResponse
+): void {
+  const { apiSpec } = target;
+  const jsonBody = parseJsonBody(body, contentType);
+  const match = findSpecOperation(apiSpec, key);
+  if (!apiSpec || jsonBody === undefined || !match) {
+    return;
+  }
+
+  const schema = getResponseSchema(apiSpec, match.operation, status);
+  if (!schema) {
+    return;
+  }
+
+  const violations = validateSchema(apiSpec, schema, jsonBody, '$', { direction: 'response' });
+  usage.validatedResponses = (usage.validatedResponses || 0) + 1;
+  if (violations.length === 0) {
+    return;
+  }
+
+  usage.invalidResponses = (usage.invalidResponses || 0) + 1;
+  usage.contractViolations = usage.contractViolations || [];
+  for (const violation of violations) {
+    addViolation(usage.contractViolations, {
+      ...violation,
+      status: String(status),
+      count: 1,
+    });
+  }
+
+  log.warn(
+    `Response of ${key} (${status}) does not match the spec: ${violations
+      .map(({ path, expected, actual }) => `${path} expected ${expected}, got ${actual}`)
+      .join('; ')}`
+  );
+}
+
+/**
+ * Record a response status for an API request
+ * Only internal server errors (5xx) are tracked
+ */
+export function trackServerError(
+  context: ITrackingContext,
+  method: string,
+  fullUrl: URL,
+  status: number,
+  message?: string
+): void {
+  // Only track internal server errors (5xx)
+  if (status < 500 || status >= 600) {
+    return;
+  }
+
+  const route = resolveTrackedRequest(context, method, fullUrl);
+  if (!route) {
+    return;
+  }
+
+  const { workerId } = context;
+  const { target, pathname } = route;
+  const { endpointErrors, errorsFile } = target;
+
+  const normalizedPath = normalizeRequestPath(target, pathname);
+  const key = `${method.toUpperCase()} ${normalizedPath}`;
+
+  // Check if we have a template version of this endpoint
+  const templateKey = findTemplateKey(key, Object.keys(endpointErrors));
+
+  // Initialize error record if it doesn't exist
+  if (!endpointErrors[templateKey]) {
+    endpointErrors[templateKey] = {
+      count: 0,
+      statusCodes: {},
+    };
+  }
+
+  // Update error counts
+  endpointErrors[templateKey].count++;
+
+  // Update status code counts
+  const statusStr = status.toString();
+  endpointErrors[templateKey].statusCodes[statusStr] =
+    (endpointErrors[templateKey].statusCodes[statusStr] || 0) + 1;
+
+  // Store the last error message
+  if (message) {
+    endpointErrors[templateKey].lastError = message.substring(0, 200); // Limit size
+  }
+
+  // Log at debug level rather than info to reduce noise
+  if (normalizedPath !== fullUrl.pathname) {
+    log.debug(
+      `Worker ${workerId} captured internal server error: ${key} (normalized from ${fullUrl.pathname}) (${status})`
+    );
+  } else {
+    log.debug(`Worker ${workerId} captured internal server error: ${key} (${status})`);
+  }
+
+  // Save errors to file
+  saveErrors(errorsFile, endpointErrors, workerId);
+}
+
+/**
+ * Find an existing template version of a concrete endpoint, or return the endpoint itself
+ */
+function findTemplateKey(key: string, existingKeys: string[]): string {
+  if (key.includes('{') || key.includes('}')) {
+    return key;
+  }
+
+  return (
+    existingKeys.find(
+      (existingKey) =>
+        existingKey.includes('{') &&
+        existingKey.includes('}') &&
+        endpointMatchesTemplate(key, existingKey)
+    ) || key
+  );
+}
+
+/**
+ * Helper function to determine if a concrete endpoint matches a template
+ */
+export function endpointMatchesTemplate(
+  concreteEndpoint: string,
+  templateEndpoint: string
+): boolean {
+  const [concreteMethod, concretePath] = concreteEndpoint.split(' ', 2);
+  const [templateMethod, templatePath] = templateEndpoint.split(' ', 2);
+
+  // Methods must match
+  if (concreteMethod !== templateMethod) {
+    return false;
+  }
+
+  // Split paths into segments
+  const concreteSegments = concretePath.split('/').filter(Boolean);
+  const templateSegments = templatePath.split('/').filter(Boolean);
+
+  // Must have same number of segments
+  if (concreteSegments.length !== templateSegments.length) {
+    return false;
+  }
+
+  // Compare each segment
+  for (let i = 0; i < templateSegments.length; i++) {
+    const templateSegment = templateSegments[i];
+    const concreteSegment = concreteSegments[i];
+
+    // If template segment is a parameter, it matches anything
+    if (templateSegment.startsWith('{') && templateSegment.endsWith('}')) {
+      // Check if concrete segment looks like a MongoDB ID
+      if (/^[0-9a-f]{24}$/.test(concreteSegment)) {
+        continue; // Match - parameter with MongoDB ID
+      }
+
+      // For other parameter types, we'll just assume it's a match
+      continue;
+    }
+
+    // For non-parameter segments, they must match exactly
+    if (templateSegment !== concreteSegment) {
+      return false;
+    }
+  }
+
+  // All segments matched
+  return true;
+}
@@ -0,0 +1,186 @@
+import { existsSync, readFileSync, unlinkSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { Services } from '@wdio/types';
+import logger from '@wdio/logger';
+import {
+  ICoverageReport,
+  IEndpointHitRecord,
+  ISpecReportInput,
+  TServiceOptions,
+} from '../types/index.js';
+import { COVERAGE_DIR, ensureTempDirs, getSpecCoverageDir } from '../utils/file-utils.js';
+import { isRoutableSpec } from '../utils/spec-router.js';
+import { checkRegressions, checkThresholds } from './threshold-checker.js';
+import {
+  extractEndpointsFromSpec,
+  loadOpenApiSpec,
+  parseOpenApiSpec,
+} from './openapi-processor.js';
+import {
+  getAllEndpointUsage,
+  getAllHitEndpoints,
+  getAllServerErrors,
+  getHitEndpointsByWorker,
+} from './endpoint-collector.js';
+import { generateCoverageReport } from './report-generator.js';
+
+// Create a logger instance
+const log = logger('openapi:coverage-launcher');
+
+// Stands in for a worker ID when collecting the files saved by every worker
+const LAUNCHER_ID = 'launcher';
+
+/**
+ * Environment variable telling the workers, forked by the launcher, that the launcher runs
+ */
+export const LAUNCHER_ENV = 'WDIO_OPENAPI_LAUNCHER';
+
+/**
+ * Launcher service generating the report and checking the coverage thresholds once every
+ * worker has finished
+ */
+export class OpenAPICoverageLauncher implements Services.ServiceInstance {
+  options: TServiceOptions;
+
+  constructor(options: TServiceOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Remove the data of a previous run before any worker starts
+   * The report of a previous run is removed too, so that a run generating none cannot pass,
+   * unless it is the baseline of this run
+   */
+  onPrepare(): void {
+    process.env[LAUNCHER_ENV] = 'true';
+    ensureTempDirs();
+
+    const reportPath = this.getReportPath();
+    const { thresholds, failOnRegression, baselinePath } = this.options;
+    if (
+      (thresholds || failOnRegression) &&
+      existsSync(reportPath) &&
+      (!baselinePath || resolve(baselinePath) !== resolve(reportPath))
+    ) {
+      unlinkSync(reportPath);
+    }
+  }
+
+  /**
+   * Generate the report from the data saved by every worker, then fail the run when it
+   * misses a threshold or regressed since the baseline
+   * WebdriverIO only changes the exit code for errors named SevereServiceError
+   */
+  async onComplete(): Promise<void> {
+    await this.generateReport();
+
+    const { thresholds, failOnRegression } = this.options;
+    if (!thresholds && !failOnRegression) {
+      return;
+    }
+
+    const reportPath = this.getReportPath();
+    let violations: string[];
+
+    if (!existsSync(reportPath)) {
+      violations = [`No coverage report was generated at ${reportPath} during this run`];
+    } else {
+      try {
+        const report = JSON.parse(readFileSync(reportPath, 'utf-8')) as ICoverageReport;
+        violations = thresholds ? checkThresholds(report, thresholds) : [];
+
+        if (failOnRegression && !report.baselineDiff) {
+          log.warn('No baseline report to check for regressions, set baselinePath');
+        } else if (failOnRegression) {
+          violations.push(...checkRegressions(report));
+        }
+      } catch (err) {
+        log.error(`Failed to read coverage report ${reportPath}:`, err);
+        violations = [`The coverage report at ${reportPath} could not be read`];
+      }
+    }
+
+    if (violations.length === 0) {
+      log.info('API coverage checks passed');
+      return;
+    }
+
+    const error = new Error(
+      `API coverage checks failed:\n${violations.map((violation) => `  - ${violation}`).join('\n')}`
+    );
+    error.name = 'SevereServiceError';
+    throw error;
+  }
+
+  /**
+   * Combine the endpoints, errors and usage saved by every worker into the coverage report
+   */
+  private async generateReport(): Promise<void> {
+    const apiSpec = await loadOpenApiSpec(this.options.openApiPath);
+    if (!apiSpec) {
+      log.warn('No OpenAPI specification found or loaded');
+    }
+
+    // Collect all hit endpoints and their call counts from all workers
+    const hitCounts: Record<string, IEndpointHitRecord> = {};
+    const hitEndpoints = getAllHitEndpoints(new Set(), LAUNCHER_ID, COVERAGE_DIR, hitCounts);
+    log.info(`Combined total: ${hitEndpoints.length} unique hit endpoints from all workers`);
+
+    // Collect the same data for each additional spec from its own directory
+    const specs: ISpecReportInput[] = [];
+    for (const config of this.options.apiSpecs || []) {
+      if (specs.some(({ name }) => name === config.name)) {
+        continue;
+      }
+
+      const specApi = await parseOpenApiSpec(resolve(process.cwd(), config.openApiPath));
+      if (!specApi) {
+        log.error(`Could not load OpenAPI spec ${config.name} from ${config.openApiPath}`);
+        continue;
+      }
+
+      // The workers skipped the spec, no request was routed to it
+      if (
+        !isRoutableSpec({ hosts: config.hosts, pathPrefix: config.pathPrefix, apiSpec: specApi })
+      ) {
+        continue;
+      }
+
+      const directory = getSpecCoverageDir(config.name);
+      const specHitCounts: Record<string, IEndpointHitRecord> = {};
+      specs.push({
+        name: config.name,
+        apiSpec: specApi,
+        specEndpoints: extractEndpointsFromSpec(specApi),
+        hitEndpoints: getAllHitEndpoints(new Set(), LAUNCHER_ID, directory, specHitCounts),
+        serverErrors: getAllServerErrors({}, directory),
+        endpointUsage: getAllEndpointUsage({}, LAUNCHER_ID, directory),
+        hitCounts: specHitCounts,
+        workers: getHitEndpointsByWorker(directory),
+      });
+    }
+
+    generateCoverageReport(
+      apiSpec ? extractEndpointsFromSpec(apiSpec) : new Set(),
+      hitEndpoints,
+      getAllServerErrors({}),
+      this.getReportPath(),
+      this.options.endpointPatternFile,
+      {
+        apiSpec,
+        endpointUsage: getAllEndpointUsage({}, LAUNCHER_ID),
+        hitCounts,
+        workers: getHitEndpointsByWorker(),
+        slowEndpointThreshold: this.options.slowEndpointThreshold,
+        excludeOperations: this.options.excludeOperations,
+        baselinePath: this.options.baselinePath,
+        htmlOutputPath: this.options.htmlOutputPath,
+        specs,
+      }
+    );
+  }
+
+  private getReportPath(): string {
+    return this.options.outputPath || 'api-coverage-report.json';
+  }
+}
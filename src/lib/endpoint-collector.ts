@@ -1,34 +1,71 @@
 import { existsSync, readFileSync, readdirSync } from 'node:fs';
 import { join } from 'node:path';
 import logger from '@wdio/logger';
-import { IServerErrorRecord, IErrorFileRecord } from '../types/index.js';
+import {
+  IServerErrorRecord,
+  IErrorFileRecord,
+  IEndpointUsageRecord,
+  IEndpointHitRecord,
+  IHitEndpointsFile,
+  IWorkerHits,
+  IContractViolation,
+  IRequestViolation,
+} from '../types/index.js';
 import { COVERAGE_DIR } from '../utils/file-utils.js';
 
 // Create a logger instance
 const log = logger('openapi:endpoint-collector');
 
+// Upper bound for the distinct values recorded per parameter
+export const MAX_PARAMETER_VALUES = 20;
+
+// Upper bound for the distinct violations of each kind recorded per endpoint
+const MAX_VIOLATIONS = 50;
+
+// Upper bound for the latency and size samples recorded per endpoint
+const MAX_SAMPLES = 1000;
+
+// Usage fields holding sampled values
+const SAMPLE_FIELDS = ['latencies', 'requestSizes', 'responseSizes'] as const;
+
 /**
  * Get all hit endpoints from all worker files
+ * Additional specs keep their worker files in their own directory.
+ * When given, hitCounts is filled with the call counts of the returned endpoints across all workers
  */
-export function getAllHitEndpoints(hitEndpoints: Set<string>, _workerId: string): string[] {
+export function getAllHitEndpoints(
+  hitEndpoints: Set<string>,
+  _workerId: string,
+  directory: string = COVERAGE_DIR,
+  hitCounts?: Record<string, IEndpointHitRecord>
+): string[] {
   const allHitEndpoints = new Set<string>();
+  const allHitCounts: Record<string, IEndpointHitRecord> = {};
 
   // First add the endpoints from the current worker (in memory)
   hitEndpoints.forEach((endpoint) => allHitEndpoints.add(endpoint));
 
   // Then read all the endpoint files from the coverage directory
   try {
-    if (existsSync(COVERAGE_DIR)) {
-      const files = readdirSync(COVERAGE_DIR).filter(
+    if (existsSync(directory)) {
+      const files = readdirSync(directory).filter(
         (f) => f.startsWith('endpoints-') && f.endsWith('.json')
       );
 
       let totalEndpointsAdded = 0;
       for (const file of files) {
         try {
-          const filePath = join(COVERAGE_DIR, file);
+          const filePath = join(directory, file);
           const fileContent = readFileSync(filePath, 'utf-8');
-          const fileEndpoints = JSON.parse(fileContent);
+          const fileData = JSON.parse(fileContent) as IHitEndpointsFile | string[];
+
+          // Older worker files only hold the endpoint list
+          const fileEndpoints = Array.isArray(fileData) ? fileData : fileData?.endpoints;
+          if (!Array.isArray(fileData)) {
+            Object.entries(fileData?.hits || {}).forEach(([endpoint, record]) =>
+              mergeEndpointHitRecord(allHitCounts, endpoint, record)
+            );
+          }
 
           if (Array.isArray(fileEndpoints)) {
             const initialSize = allHitEndpoints.size;
@@ -88,14 +125,106 @@ export function getAllHitEndpoints(hitEndpoints: Set<string>, _workerId: string)
     }
   }
 
+  if (hitCounts) {
+    // Calls to concrete endpoints count towards the template that replaced them
+    for (const [endpoint, record] of Object.entries(allHitCounts)) {
+      const hitEndpoint = dedupedEndpoints.has(endpoint)
+        ? endpoint
+        : [...dedupedEndpoints].find((e) => matchesHitTemplate(endpoint, e));
+      if (hitEndpoint) {
+        mergeEndpointHitRecord(hitCounts, hitEndpoint, record);
+      }
+    }
+  }
+
   return [...dedupedEndpoints];
 }
 
+/**
+ * Get the endpoints hit by each worker that saved its capability with its hit endpoints
+ */
+export function getHitEndpointsByWorker(directory: string = COVERAGE_DIR): IWorkerHits[] {
+  const workers: IWorkerHits[] = [];
+
+  try {
+    if (!existsSync(directory)) {
+      return workers;
+    }
+
+    const files = readdirSync(directory).filter(
+      (f) => f.startsWith('endpoints-') && f.endsWith('.json')
+    );
+
+    for (const file of files) {
+      try {
+        const fileData = JSON.parse(readFileSync(join(directory, file), 'utf-8')) as
+          | IHitEndpointsFile
+          | string[];
+        if (!Array.isArray(fileData) && fileData?.worker) {
+          workers.push({ worker: fileData.worker, endpoints: fileData.endpoints || [] });
+        }
+      } catch (fileErr) {
+        log.error(`Error reading file ${file}:`, fileErr);
+      }
+    }
+  } catch (err) {
+    log.error('Error reading coverage directory for worker endpoints:', err);
+  }
+
+  return workers.sort((a, b) => a.worker.workerId.localeCompare(b.worker.workerId));
+}
+
+/**
+ * Add the calls of a hit record to the record of an endpoint
+ */
+function mergeEndpointHitRecord(
+  hitCounts: Record<string, IEndpointHitRecord>,
+  endpoint: string,
+  record: IEndpointHitRecord
+): void {
+  const existing = hitCounts[endpoint];
+  if (!existing) {
+    hitCounts[endpoint] = { ...record };
+    return;
+  }
+
+  existing.count += record.count || 0;
+  if (record.firstSeen && record.firstSeen < existing.firstSeen) {
+    existing.firstSeen = record.firstSeen;
+  }
+  if (record.lastSeen && record.lastSeen > existing.lastSeen) {
+    existing.lastSeen = record.lastSeen;
+  }
+}
+
+/**
+ * Check whether a concrete endpoint is an instance of a template endpoint
+ */
+function matchesHitTemplate(endpoint: string, template: string): boolean {
+  if (!template.includes('{')) {
+    return false;
+  }
+
+  const [method, path] = endpoint.split(' ', 2);
+  const [templateMethod, templatePath] = template.split(' ', 2);
+  const segments = (path || '').split('/');
+  const templateSegments = (templatePath || '').split('/');
+
+  return (
+    method === templateMethod &&
+    segments.length === templateSegments.length &&
+    templateSegments.every(
+      (segment, index) => /^\{[^}]+\}$/.test(segment) || segment === segments[index]
+    )
+  );
+}
+
 /**
  * Get all server errors from all worker files
  */
 export function getAllServerErrors(
-  endpointErrors: Record<string, IServerErrorRecord>
+  endpointErrors: Record<string, IServerErrorRecord>,
+  directory: string = COVERAGE_DIR
 ): Record<string, IServerErrorRecord> {
   const allServerErrors: Record<string, IServerErrorRecord> = {};
 
@@ -106,8 +235,8 @@ export function getAllServerErrors(
 
   // Then read all the error files from the coverage directory
   try {
-    if (existsSync(COVERAGE_DIR)) {
-      const files = readdirSync(COVERAGE_DIR).filter(
+    if (existsSync(directory)) {
+      const files = readdirSync(directory).filter(
         (f) => f.startsWith('errors-') && f.endsWith('.json')
       );
 
@@ -118,7 +247,7 @@ export function getAllServerErrors(
       let totalErrorCount = 0;
       for (const file of files) {
         try {
-          const filePath = join(COVERAGE_DIR, file);
+          const filePath = join(directory, file);
           const fileContent = readFileSync(filePath, 'utf-8');
           const fileErrors = JSON.parse(fileContent);
 
@@ -166,3 +295,210 @@ export function getAllServerErrors(
 
   return allServerErrors;
 }
+
+/**
+ * Get the endpoint usage details from all worker files
+ */
+export function getAllEndpointUsage(
+  endpointUsage: Record<string, IEndpointUsageRecord>,
+  workerId: string,
+  directory: string = COVERAGE_DIR
+): Record<string, IEndpointUsageRecord> {
+  const allUsage: Record<string, IEndpointUsageRecord> = {};
+
+  const mergeUsage = (usage: Record<string, IEndpointUsageRecord>): void => {
+    Object.entries(usage).forEach(([endpoint, record]) => {
+      if (!allUsage[endpoint]) {
+        allUsage[endpoint] = createEndpointUsageRecord();
+      }
+
+      mergeEndpointUsageRecord(allUsage[endpoint], record);
+    });
+  };
+
+  // First add the usage from the current worker (in memory)
+  mergeUsage(endpointUsage);
+
+  // Then read the usage files of the other workers from the coverage directory
+  try {
+    if (existsSync(directory)) {
+      const files = readdirSync(directory).filter(
+        (f) => f.startsWith('usage-') && f.endsWith('.json') && f !== `usage-${workerId}.json`
+      );
+
+      for (const file of files) {
+        try {
+          const fileContent = readFileSync(join(directory, file), 'utf-8');
+          mergeUsage(JSON.parse(fileContent));
+        } catch (fileErr) {
+          log.error(`Error reading file ${file}:`, fileErr);
+        }
+      }
+
+      if (files.length > 0) {
+        log.info(`Merged endpoint usage from ${files.length} files`);
+      }
+    }
+  } catch (err) {
+    log.error('Error reading coverage directory for endpoint usage:', err);
+  }
+
+  return allUsage;
+}
+
+/**
+ * Create an empty usage record
+ */
+export function createEndpointUsageRecord(): IEndpointUsageRecord {
+  return {
+    servers: {},
+    statusCodes: {},
+    queryParams: {},
+    headers: {},
+    cookies: {},
+    bodyProperties: {},
+  };
+}
+
+/**
+ * Add the counts of a usage record (possibly from an older worker file) to another one
+ */
+export function mergeEndpointUsageRecord(
+  target: IEndpointUsageRecord,
+  source: Partial<IEndpointUsageRecord>
+): void {
+  const mergeCounts = (into: Record<string, number>, from?: Record<string, number>): void => {
+    Object.entries(from || {}).forEach(([key, count]) => {
+      into[key] = (into[key] || 0) + count;
+    });
+  };
+
+  mergeCounts(target.servers, source.servers);
+  mergeCounts(target.statusCodes, source.statusCodes);
+  mergeCounts(target.queryParams, source.queryParams);
+  mergeCounts(target.headers, source.headers);
+  mergeCounts(target.cookies, source.cookies);
+  mergeCounts(target.bodyProperties, source.bodyProperties);
+
+  if (source.intentionalClientErrors) {
+    target.intentionalClientErrors = target.intentionalClientErrors || {};
+    mergeCounts(target.intentionalClientErrors, source.intentionalClientErrors);
+  }
+  if (source.accidentalClientErrors) {
+    target.accidentalClientErrors = target.accidentalClientErrors || {};
+    mergeCounts(target.accidentalClientErrors, source.accidentalClientErrors);
+  }
+  if (source.lastClientError) {
+    target.lastClientError = source.lastClientError;
+  }
+
+  if (source.networkFailures) {
+    target.networkFailures = target.networkFailures || {};
+    mergeCounts(target.networkFailures, source.networkFailures);
+  }
+  if (source.lastNetworkError) {
+    target.lastNetworkError = source.lastNetworkError;
+  }
+  if (source.inFlightAtEnd) {
+    target.inFlightAtEnd = (target.inFlightAtEnd || 0) + source.inFlightAtEnd;
+  }
+
+  if (source.validatedResponses) {
+    target.validatedResponses = (target.validatedResponses || 0) + source.validatedResponses;
+  }
+  if (source.invalidResponses) {
+    target.invalidResponses = (target.invalidResponses || 0) + source.invalidResponses;
+  }
+  if (source.contractViolations && source.contractViolations.length > 0) {
+    target.contractViolations = target.contractViolations || [];
+    for (const violation of source.contractViolations) {
+      addViolation(target.contractViolations, violation);
+    }
+  }
+
+  if (source.validatedRequests) {
+    target.validatedRequests = (target.validatedRequests || 0) + source.validatedRequests;
+  }
+  if (source.invalidRequests) {
+    target.invalidRequests = (target.invalidRequests || 0) + source.invalidRequests;
+  }
+  if (source.requestViolations && source.requestViolations.length > 0) {
+    target.requestViolations = target.requestViolations || [];
+    for (const violation of source.requestViolations) {
+      addViolation(target.requestViolations, violation);
+    }
+  }
+
+  Object.entries(source.parameterValues || {}).forEach(([param, values]) => {
+    if (!target.parameterValues) {
+      target.parameterValues = {};
+    }
+    target.parameterValues[param] = [
+      ...new Set([...(target.parameterValues[param] || []), ...values]),
+    ].slice(0, MAX_PARAMETER_VALUES);
+  });
+
+  Object.entries(source.tests || {}).forEach(([testId, record]) => {
+    target.tests = target.tests || {};
+    const existing = target.tests[testId];
+    if (existing) {
+      existing.count += record.count;
+    } else {
+      target.tests[testId] = { ...record };
+    }
+  });
+
+  for (const field of SAMPLE_FIELDS) {
+    const samples = source[field];
+    if (samples && samples.length > 0) {
+      target[field] = mergeSamples(target[field] || [], samples);
+    }
+  }
+}
+
+/**
+ * Add a sample to a list of sampled values
+ * Once the list is full, new samples replace random earlier ones so the list stays representative
+ */
+export function addSample(samples: number[], value: number): void {
+  if (samples.length < MAX_SAMPLES) {
+    samples.push(value);
+  } else {
+    samples[Math.floor(Math.random() * MAX_SAMPLES)] = value;
+  }
+}
+
+/**
+ * Combine two lists of sampled values, keeping evenly spread values of the sorted list when
+ * there are too many so the percentiles are preserved
+ */
+function mergeSamples(target: number[], source: number[]): number[] {
+  const samples = [...target, ...source];
+  if (samples.length <= MAX_SAMPLES) {
+    return samples;
+  }
+
+  samples.sort((a, b) => a - b);
+  const step = samples.length / MAX_SAMPLES;
+  return Array.from({ length: MAX_SAMPLES }, (_value, index) => samples[Math.floor(index * step)]);
+}
+
+/**
+ * Add a violation to a list, counting repeated violations instead of listing them again
+ * Violations are the same when all their fields but the count are equal
+ */
+export function addViolation<T extends IContractViolation | IRequestViolation>(
+  violations: T[],
+  violation: T
+): void {
+  const fields = Object.keys(violation).filter((field) => field !== 'count') as Array<keyof T>;
+  const existing = violations.find((candidate) =>
+    fields.every((field) => candidate[field] === violation[field])
+  );
+
+  if (existing) {
+    existing.count += violation.count;
+  } else if (violations.length < MAX_VIOLATIONS) {
+    violations.push({ ...violation });
+  }
+}
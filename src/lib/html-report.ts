@@ -0,0 +1,216 @@
+import { ICoverageReport, IMethodCoverage, TSpecCoverageReport } from '../types/index.js';
+
+// Inlined so the report opens offline, without any external stylesheet or script
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 2rem; color: #1f2328; }
+h1 { margin-bottom: 0.25rem; }
+h2 { margin-top: 2.5rem; border-bottom: 1px solid #d0d7de; padding-bottom: 0.25rem; }
+.timestamp { color: #656d76; }
+.cards { display: flex; flex-wrap: wrap; gap: 1rem; margin: 1rem 0; }
+.card { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; min-width: 8rem; }
+.card .value { font-size: 1.75rem; font-weight: 600; }
+.card .label { color: #656d76; font-size: 0.85rem; }
+table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.35rem 0.75rem; text-align: left; }
+th { background: #f6f8fa; }
+.bar { background: #eaeef2; border-radius: 3px; height: 0.6rem; width: 8rem; }
+.bar span { background: #1a7f37; border-radius: 3px; display: block; height: 100%; }
+.status { border-radius: 1rem; font-size: 0.8rem; padding: 0.1rem 0.5rem; }
+.status-tested { background: #dafbe1; }
+.status-untested { background: #ffebe9; }
+.status-extra { background: #fff8c5; }
+.status-excluded { background: #eaeef2; }
+.filters { display: flex; gap: 0.5rem; }
+details { margin: 0.25rem 0; }
+summary { cursor: pointer; }
+pre { background: #f6f8fa; padding: 0.5rem; white-space: pre-wrap; }
+`;
+
+// Filters the endpoint rows of a section by text and status
+const SCRIPT = `
+document.querySelectorAll('.endpoint-filter').forEach(function (filter) {
+  var section = filter.closest('section');
+  var text = filter.querySelector('input');
+  var status = filter.querySelector('select');
+  function apply() {
+    var query = text.value.toLowerCase();
+    section.querySelectorAll('tr[data-status]').forEach(function (row) {
+      var visible = row.dataset.endpoint.toLowerCase().indexOf(query) !== -1 &&
+        (!status.value || row.dataset.status === status.value);
+      row.style.display = visible ? '' : 'none';
+    });
+  }
+  text.addEventListener('input', apply);
+  status.addEventListener('change', apply);
+});
+`;
+
+/**
+ * Render the coverage report as a single HTML page that works offline
+ */
+export function renderHtmlReport(report: ICoverageReport): string {
+  const sections = [
+    renderSection(report.specs ? 'Default spec' : 'Coverage', report),
+    ...Object.entries(report.specs || {}).map(([name, spec]) => renderSection(name, spec)),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>API Coverage Report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>API Coverage Report</h1>
+<p class="timestamp">Generated ${escapeHtml(report.timestamp)}</p>
+${report.rollup ? `<h2>All specs</h2>\n${renderCards(report.rollup.summary, report.rollup.serverErrorStats.totalServerErrors)}` : ''}
+${sections.join('\n')}
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render the summary, tables, endpoint list and server errors of a spec
+ */
+function renderSection(title: string, section: TSpecCoverageReport): string {
+  const extraEndpoints = section.extraEndpoints || [];
+
+  return `<section>
+<h2>${escapeHtml(title)}</h2>
+${renderCards(section.summary, section.serverErrorStats.totalServerErrors, extraEndpoints.length, section.baselineDiff?.coverageChange)}
+<h3>Methods</h3>
+${renderCoverageTable('Method', section.methodCoverage)}
+${section.tagCoverage ? `<h3>Tags</h3>\n${renderCoverageTable('Tag', section.tagCoverage.tags)}` : ''}
+<h3>Endpoints</h3>
+${renderEndpoints(section)}
+<h3>Server errors</h3>
+${renderServerErrors(section)}
+</section>`;
+}
+
+/**
+ * Render the summary cards of a spec or of all specs
+ */
+function renderCards(
+  summary: ICoverageReport['summary'],
+  serverErrors: number,
+  extraEndpoints?: number,
+  coverageChange?: number
+): string {
+  const cards: Array<[string, string]> = [
+    ['Coverage', `${summary.coveragePercentage}%`],
+    ['Tested', `${summary.testedEndpoints} / ${summary.totalEndpoints}`],
+    ['Untested', String(summary.untestedEndpoints)],
+    ['Server errors (5xx)', String(serverErrors)],
+  ];
+  if (extraEndpoints !== undefined) {
+    cards.push(['Undocumented', String(extraEndpoints)]);
+  }
+  if (coverageChange !== undefined) {
+    cards.push(['Since baseline', `${coverageChange > 0 ? '+' : ''}${coverageChange}%`]);
+  }
+
+  return `<div class="cards">${cards
+    .map(
+      ([label, value]) =>
+        `<div class="card"><div class="value">${escapeHtml(value)}</div><div class="label">${escapeHtml(label)}</div></div>`
+    )
+    .join('')}</div>`;
+}
+
+/**
+ * Render the tested and total endpoints per method or tag
+ */
+function renderCoverageTable(heading: string, coverage: Record<string, IMethodCoverage>): string {
+  const rows = Object.entries(coverage)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([name, { total, tested, percentage }]) =>
+        `<tr><td>${escapeHtml(name)}</td><td>${tested} / ${total}</td><td>${percentage}%</td><td><div class="bar"><span style="width: ${percentage}%"></span></div></td></tr>`
+    );
+
+  return `<table>
+<tr><th>${heading}</th><th>Tested</th><th>Coverage</th><th></th></tr>
+${rows.join('\n')}
+</table>`;
+}
+
+/**
+ * List every endpoint with its status, filterable by text and status
+ */
+function renderEndpoints(section: TSpecCoverageReport): string {
+  const endpoints: Array<[string, string]> = [
+    ...section.endpoints.tested.map((endpoint): [string, string] => [endpoint, 'tested']),
+    ...section.endpoints.untested.map((endpoint): [string, string] => [endpoint, 'untested']),
+    ...(section.extraEndpoints || []).map((endpoint): [string, string] => [endpoint, 'extra']),
+    ...Object.keys(section.excludedEndpoints || {}).map((endpoint): [string, string] => [
+      endpoint,
+      'excluded',
+    ]),
+  ];
+
+  const rows = endpoints
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([endpoint, status]) => {
+      const calls = section.endpointStats?.[endpoint]?.count;
+      const serverErrors = section.serverErrors[endpoint]?.count;
+      return `<tr data-endpoint="${escapeHtml(endpoint)}" data-status="${status}"><td>${escapeHtml(endpoint)}</td><td><span class="status status-${status}">${status}</span></td><td>${calls ?? ''}</td><td>${serverErrors ?? ''}</td></tr>`;
+    });
+
+  return `<div class="filters endpoint-filter">
+<input type="search" placeholder="Filter endpoints" aria-label="Filter endpoints">
+<select aria-label="Status">
+<option value="">All statuses</option>
+<option value="tested">Tested</option>
+<option value="untested">Untested</option>
+<option value="extra">Extra</option>
+${section.excludedEndpoints ? '<option value="excluded">Excluded</option>' : ''}
+</select>
+</div>
+<table>
+<tr><th>Endpoint</th><th>Status</th><th>Calls</th><th>5xx</th></tr>
+${rows.join('\n')}
+</table>`;
+}
+
+/**
+ * Expandable details of every endpoint that answered 5xx
+ */
+function renderServerErrors(section: TSpecCoverageReport): string {
+  const entries = Object.entries(section.serverErrors).sort(([, a], [, b]) => b.count - a.count);
+  if (entries.length === 0) {
+    return '<p>No server errors.</p>';
+  }
+
+  return entries
+    .map(([endpoint, { count, statusCodes, lastError }]) => {
+      const statusRows = Object.entries(statusCodes)
+        .map(
+          ([status, statusCount]) =>
+            `<tr><td>${escapeHtml(status)}</td><td>${statusCount}</td></tr>`
+        )
+        .join('');
+      return `<details>
+<summary>${escapeHtml(endpoint)}: ${count} server error${count === 1 ? '' : 's'}</summary>
+<table><tr><th>Status</th><th>Count</th></tr>${statusRows}</table>
+${lastError ? `<pre>${escapeHtml(lastError)}</pre>` : ''}
+</details>`;
+    })
+    .join('\n');
+}
+
+/**
+ * Escape a value for use in HTML text and attributes
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
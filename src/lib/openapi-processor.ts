@@ -7,12 +7,26 @@ import {
   IParameterObject,
   IPathItem,
   IOperationObject,
+  IOperationMetadata,
+  IOperationExclusions,
+  ISchemaObject,
+  ISpecOperation,
+  ISpecPathOperation,
 } from '../types/index.js';
 import { getPossibleOpenApiPaths } from '../utils/file-utils.js';
+import { getSpecServers } from '../utils/server-resolver.js';
+import { resolveSchemaRef } from '../utils/schema-walker.js';
+import { matchesPath } from '../utils/request-filter.js';
 
 // Create a logger instance
 const log = logger('openapi:processor');
 
+// Operations of each spec by endpoint structure, built on first lookup
+const operationCache = new WeakMap<IOpenAPIDocument, Map<string, ISpecOperation>>();
+
+// Methods a path item can document an operation for
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
 /**
  * Load and parse the OpenAPI specification
  */
@@ -24,28 +38,9 @@ export async function loadOpenApiSpec(customPath?: string): Promise<IOpenAPIDocu
   for (const specPath of possiblePaths) {
     if (existsSync(specPath)) {
       log.info(`Found OpenAPI spec at: ${specPath}`);
-      try {
-        // Parse the OpenAPI/Swagger document
-        const apiSpec = (await SwaggerParser.parse(specPath)) as IOpenAPIDocument;
-        const version = apiSpec.openapi || apiSpec.swagger || 'unknown';
-        log.info(`Successfully parsed OpenAPI spec (version: ${version})`);
-
-        // Log the available paths for debugging
-        if (apiSpec.paths) {
-          const pathsCount = Object.keys(apiSpec.paths).length;
-          log.info(`OpenAPI spec contains ${pathsCount} paths`);
-          if (pathsCount > 0) {
-            log.info(`First 10 paths: ${Object.keys(apiSpec.paths).slice(0, 10).join(', ')}`);
-          } else {
-            log.warn('OpenAPI spec contains no paths!');
-          }
-        } else {
-          log.warn('OpenAPI spec has no paths property!');
-        }
-
+      const apiSpec = await parseOpenApiSpec(specPath);
+      if (apiSpec) {
         return apiSpec;
-      } catch (err) {
-        log.error(`Failed to parse OpenAPI spec at ${specPath}:`, err);
       }
     }
   }
@@ -54,6 +49,42 @@ export async function loadOpenApiSpec(customPath?: string): Promise<IOpenAPIDocu
   return null;
 }
 
+/**
+ * Parse the OpenAPI specification at the given path
+ */
+export async function parseOpenApiSpec(specPath: string): Promise<IOpenAPIDocument | null> {
+  try {
+    // Parse the OpenAPI/Swagger document
+    const apiSpec = (await SwaggerParser.parse(specPath)) as IOpenAPIDocument;
+    const version = apiSpec.openapi || apiSpec.swagger || 'unknown';
+    log.info(`Successfully parsed OpenAPI spec (version: ${version})`);
+
+    // Log the available paths for debugging
+    if (apiSpec.paths) {
+      const pathsCount = Object.keys(apiSpec.paths).length;
+      log.info(`OpenAPI spec contains ${pathsCount} paths`);
+      if (pathsCount > 0) {
+        log.info(`First 10 paths: ${Object.keys(apiSpec.paths).slice(0, 10).join(', ')}`);
+      } else {
+        log.warn('OpenAPI spec contains no paths!');
+      }
+    } else {
+      log.warn('OpenAPI spec has no paths property!');
+    }
+
+    // Log the servers request paths are matched against
+    const servers = getSpecServers(apiSpec);
+    if (servers.length > 0) {
+      log.info(`OpenAPI spec servers: ${servers.map(({ url }) => url).join(', ')}`);
+    }
+
+    return apiSpec;
+  } catch (err) {
+    log.error(`Failed to parse OpenAPI spec at ${specPath}:`, err);
+    return null;
+  }
+}
+
 /**
  * Extract endpoints from the OpenAPI spec
  */
@@ -71,11 +102,7 @@ export function extractEndpointsFromSpec(apiSpec: IOpenAPIDocument | null): Set<
     } // Skip null/undefined path items
 
     // Get all HTTP methods defined for this path
-    const methods = Object.keys(pathItem).filter((key) =>
-      ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'].includes(
-        key.toLowerCase()
-      )
-    );
+    const methods = Object.keys(pathItem).filter((key) => HTTP_METHODS.includes(key.toLowerCase()));
 
     for (const method of methods) {
       specEndpoints.add(`${method.toUpperCase()} ${pathKey}`);
@@ -87,6 +114,291 @@ export function extractEndpointsFromSpec(apiSpec: IOpenAPIDocument | null): Set<
   return specEndpoints;
 }
 
+/**
+ * Call the callback for every operation documented in the OpenAPI spec, with its endpoint
+ * (`METHOD path`), path and path item
+ */
+export function forEachOperation(
+  apiSpec: IOpenAPIDocument | null,
+  callback: (operation: ISpecPathOperation, apiSpec: IOpenAPIDocument) => void
+): void {
+  if (!apiSpec || !apiSpec.paths) {
+    return;
+  }
+
+  for (const [path, pathItem] of Object.entries(apiSpec.paths)) {
+    if (!pathItem) {
+      continue;
+    }
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method as keyof IPathItem] as IOperationObject | undefined;
+      if (operation) {
+        callback(
+          { endpoint: `${method.toUpperCase()} ${path}`, path, pathItem, operation },
+          apiSpec
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Extract the operationId, summary, tags and deprecation of every operation in the OpenAPI spec
+ * Keys are endpoints (`METHOD path`)
+ */
+export function extractOperationMetadata(
+  apiSpec: IOpenAPIDocument | null
+): Record<string, IOperationMetadata> {
+  const metadata: Record<string, IOperationMetadata> = {};
+
+  forEachOperation(apiSpec, ({ endpoint, operation }) => {
+    metadata[endpoint] = {
+      ...(typeof operation.operationId === 'string' ? { operationId: operation.operationId } : {}),
+      ...(typeof operation.summary === 'string' ? { summary: operation.summary } : {}),
+      tags: Array.isArray(operation.tags) ? operation.tags : [],
+      ...(operation.deprecated === true ? { deprecated: true } : {}),
+    };
+  });
+
+  return metadata;
+}
+
+/**
+ * Find the operations left out of the coverage percentage, with the reason of each exclusion
+ * Operations (or path items) marked `x-coverage-ignore: true` or `x-internal: true` are always
+ * excluded, deprecated operations and configured operationIds, tags and paths on request
+ */
+export function findExcludedOperations(
+  apiSpec: IOpenAPIDocument | null,
+  exclusions: IOperationExclusions = {}
+): Record<string, string> {
+  const excluded: Record<string, string> = {};
+
+  forEachOperation(apiSpec, ({ endpoint, path, pathItem, operation }) => {
+    const tag = (operation.tags || []).find((name) => exclusions.tags?.includes(name));
+    let reason: string | undefined;
+
+    if (operation['x-coverage-ignore'] === true || pathItem['x-coverage-ignore'] === true) {
+      reason = 'x-coverage-ignore';
+    } else if (operation['x-internal'] === true || pathItem['x-internal'] === true) {
+      reason = 'x-internal';
+    } else if (exclusions.deprecated && operation.deprecated === true) {
+      reason = 'deprecated';
+    } else if (
+      typeof operation.operationId === 'string' &&
+      exclusions.operationIds?.includes(operation.operationId)
+    ) {
+      reason = `operationId ${operation.operationId}`;
+    } else if (tag) {
+      reason = `tag ${tag}`;
+    } else if (exclusions.paths && matchesPath(exclusions.paths, path)) {
+      reason = 'path';
+    }
+
+    if (reason) {
+      excluded[endpoint] = reason;
+    }
+  });
+
+  return excluded;
+}
+
+/**
+ * Extract the documented response status codes of every operation in the OpenAPI spec
+ * Keys are endpoints (`METHOD path`), values the keys of the operation's `responses`
+ * (e.g. `200`, `4XX`, `default`)
+ */
+export function extractResponseCodesFromSpec(
+  apiSpec: IOpenAPIDocument | null
+): Record<string, string[]> {
+  const responseCodes: Record<string, string[]> = {};
+
+  forEachOperation(apiSpec, ({ endpoint, operation }) => {
+    responseCodes[endpoint] = Object.keys(operation.responses || {});
+  });
+
+  return responseCodes;
+}
+
+/**
+ * Extract the documented parameters of every operation for one location (query, header, ...)
+ * Path-level parameters are inherited, operation parameters override them by name
+ */
+export function extractParametersFromSpec(
+  apiSpec: IOpenAPIDocument | null,
+  location: string
+): Record<string, IParameterObject[]> {
+  const parameters: Record<string, IParameterObject[]> = {};
+
+  forEachOperation(apiSpec, ({ endpoint, pathItem, operation }, spec) => {
+    parameters[endpoint] = getOperationParameters(spec, pathItem, operation).filter(
+      (param) => param.in === location
+    );
+  });
+
+  return parameters;
+}
+
+/**
+ * Extract the JSON request body schema of every operation that documents one
+ */
+export function extractRequestBodySchemas(
+  apiSpec: IOpenAPIDocument | null
+): Record<string, ISchemaObject> {
+  const schemas: Record<string, ISchemaObject> = {};
+
+  forEachOperation(apiSpec, ({ endpoint, pathItem, operation }, spec) => {
+    const { schema } = getRequestBody(spec, pathItem, operation);
+    if (schema) {
+      schemas[endpoint] = schema;
+    }
+  });
+
+  return schemas;
+}
+
+/**
+ * Get the resolved parameters of an operation, including the ones inherited from its path
+ * Operation parameters override path-level parameters with the same name and location
+ */
+export function getOperationParameters(
+  apiSpec: IOpenAPIDocument,
+  pathItem: IPathItem,
+  operation: IOperationObject
+): IParameterObject[] {
+  const byName = new Map<string, IParameterObject>();
+  for (const param of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+    const resolved = resolveParameter(apiSpec, param);
+    if (resolved?.name) {
+      byName.set(`${resolved.in}:${resolved.name}`, resolved);
+    }
+  }
+
+  return [...byName.values()];
+}
+
+/**
+ * Get the JSON request body schema of an operation and whether a body is required
+ * Uses the JSON media type of `requestBody` (OpenAPI 3.x) or the `in: body` parameter (Swagger 2.0)
+ */
+export function getRequestBody(
+  apiSpec: IOpenAPIDocument,
+  pathItem: IPathItem,
+  operation: IOperationObject
+): { schema?: ISchemaObject; required: boolean } {
+  const requestBody = resolveSchemaRef(apiSpec, operation.requestBody as ISchemaObject);
+  if (requestBody) {
+    return {
+      schema: getJsonMediaTypeSchema(requestBody.content),
+      required: requestBody.required === true,
+    };
+  }
+
+  const bodyParam = getOperationParameters(apiSpec, pathItem, operation).find(
+    (param) => param.in === 'body'
+  );
+  return { schema: bodyParam?.schema, required: bodyParam?.required === true };
+}
+
+/**
+ * Find the operation of the spec an endpoint (`METHOD /path/{param}`) belongs to
+ * Path templates are compared by structure, so parameter names may differ
+ */
+export function findSpecOperation(
+  apiSpec: IOpenAPIDocument | null,
+  endpoint: string
+): ISpecOperation | undefined {
+  if (!apiSpec || !apiSpec.paths) {
+    return undefined;
+  }
+
+  let operations = operationCache.get(apiSpec);
+  if (!operations) {
+    const specOperations = new Map<string, ISpecOperation>();
+    forEachOperation(apiSpec, ({ endpoint: specEndpoint, pathItem, operation }) => {
+      specOperations.set(getStructureKey(specEndpoint), {
+        endpoint: specEndpoint,
+        pathItem,
+        operation,
+      });
+    });
+    operationCache.set(apiSpec, specOperations);
+    operations = specOperations;
+  }
+
+  return operations.get(getStructureKey(endpoint));
+}
+
+/**
+ * Get the JSON schema documented for a response status of an operation
+ * Falls back from the exact status to its range (e.g. 4XX) and then to `default`
+ */
+export function getResponseSchema(
+  apiSpec: IOpenAPIDocument,
+  operation: IOperationObject,
+  status: number
+): ISchemaObject | undefined {
+  const responses = (operation.responses || {}) as Record<string, ISchemaObject>;
+  const statusStr = status.toString();
+  const responseKey = [
+    statusStr,
+    `${statusStr.charAt(0)}XX`,
+    `${statusStr.charAt(0)}xx`,
+    'default',
+  ].find((key) => responses[key]);
+  if (!responseKey) {
+    return undefined;
+  }
+
+  const response = resolveSchemaRef(apiSpec, responses[responseKey]);
+
+  // Swagger 2.0 responses declare their schema directly
+  return getJsonMediaTypeSchema(response?.content) || (response?.schema as ISchemaObject);
+}
+
+/**
+ * Get the structure of an endpoint, with every path parameter replaced by {PARAM}
+ * Endpoints documenting the same path with differently named parameters share a structure
+ */
+export function getStructureKey(endpoint: string): string {
+  const [method, path] = endpoint.split(' ', 2);
+  return `${method} ${(path || '').replace(/\{[^}]+\}/g, '{PARAM}')}`;
+}
+
+/**
+ * Get the schema of the JSON media type (application/json or any +json type) of a content map
+ */
+export function getJsonMediaTypeSchema(content: unknown): ISchemaObject | undefined {
+  if (!content || typeof content !== 'object') {
+    return undefined;
+  }
+
+  const mediaTypes = content as Record<string, { schema?: ISchemaObject } | undefined>;
+  const jsonType = Object.keys(mediaTypes).find((mediaType) =>
+    /^application\/(.+\+)?json\b|^\*\/\*$/i.test(mediaType)
+  );
+
+  return jsonType ? mediaTypes[jsonType]?.schema : undefined;
+}
+
+/**
+ * Resolve a parameter reference (#/components/parameters/... or #/parameters/...)
+ */
+function resolveParameter(
+  apiSpec: IOpenAPIDocument,
+  param: IParameterObject
+): IParameterObject | undefined {
+  if (!param || !param.$ref) {
+    return param;
+  }
+
+  const refName = param.$ref.split('/').pop() || '';
+  const swaggerParameters = apiSpec.parameters as Record<string, IParameterObject> | undefined;
+
+  return apiSpec.components?.parameters?.[refName] || swaggerParameters?.[refName];
+}
+
 /**
  * Generate path normalization patterns from OpenAPI spec
  * This creates RegExp patterns that can match actual API calls to their OpenAPI template paths
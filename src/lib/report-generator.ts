@@ -4,15 +4,76 @@ import {
   IServerErrorRecord,
   IMethodCoverage,
   IServerErrorStats,
+  IBaselineDiff,
   ICoverageReport,
   IEndpointPattern,
+  IEndpointUsageRecord,
+  IReportInputs,
+  TSpecCoverageReport,
+  ICoverageRollup,
+  ISpecReportInput,
+  IOpenAPIDocument,
+  IStatusCodeCoverage,
+  IOperationStatusCoverage,
+  IParameterCoverage,
+  IOperationParameterCoverage,
+  IParameterObject,
+  IRequestBodyCoverage,
+  IOperationBodyCoverage,
+  IContractViolationReport,
+  IContractViolation,
+  IRequestViolationReport,
+  IClientErrorStats,
+  IEndpointErrorStats,
+  INetworkFailureReport,
+  IEndpointHitRecord,
+  IEndpointCallStats,
+  IPerformanceReport,
+  IEndpointPerformance,
+  IValueDistribution,
+  ITraceabilityMatrix,
+  IWorkerHits,
+  IWorkerCoverage,
+  ICapabilityCoverage,
+  IOperationMetadata,
+  ITagCoverage,
+  ITagCoverageReport,
 } from '../types/index.js';
+import {
+  extractResponseCodesFromSpec,
+  extractParametersFromSpec,
+  extractRequestBodySchemas,
+  extractOperationMetadata,
+  findExcludedOperations,
+  getStructureKey,
+} from './openapi-processor.js';
+import { collectSchemaProperties } from '../utils/schema-walker.js';
+import { createEndpointUsageRecord, mergeEndpointUsageRecord } from './endpoint-collector.js';
+import { renderHtmlReport } from './html-report.js';
 import path from 'path';
 import fs from 'fs';
 
 // Create a logger instance
 const log = logger('openapi:report-generator');
 
+// Headers set by HTTP clients and browsers, not compared with documented header parameters
+const STANDARD_HEADERS = new Set([
+  'accept',
+  'accept-encoding',
+  'accept-language',
+  'authorization',
+  'cache-control',
+  'connection',
+  'content-length',
+  'content-type',
+  'cookie',
+  'host',
+  'origin',
+  'pragma',
+  'referer',
+  'user-agent',
+]);
+
 /**
  * Load endpoint patterns from a JSON file
  */
@@ -52,6 +113,34 @@ export function loadEndpointPatterns(patternFilePath: string | undefined): IEndp
   }
 }
 
+/**
+ * Load the report of a previous run to compare with
+ */
+export function loadBaselineReport(baselinePath: string | undefined): ICoverageReport | null {
+  if (!baselinePath) {
+    return null;
+  }
+
+  try {
+    if (!existsSync(baselinePath)) {
+      log.error(`Baseline report does not exist: ${baselinePath}`);
+      return null;
+    }
+
+    const baseline = JSON.parse(readFileSync(baselinePath, 'utf-8')) as ICoverageReport;
+    if (!baseline.endpoints || !baseline.summary) {
+      log.error(`Invalid baseline report format: ${baselinePath}`);
+      return null;
+    }
+
+    log.info(`Loaded baseline report from ${baselinePath}`);
+    return baseline;
+  } catch (err) {
+    log.error(`Failed to load baseline report from ${baselinePath}:`, err);
+    return null;
+  }
+}
+
 /**
  * Normalize endpoints by applying pattern replacements
  */
@@ -110,7 +199,7 @@ export function normalizeEndpoints(endpoints: string[], patterns: IEndpointPatte
     const normalizedEndpoint = `${method} ${normalizedPath}`;
 
     // Create a structure key to group similar endpoints
-    const structureKey = `${method} ${normalizedPath.replace(/\{[^}]+\}/g, '{PARAM}')}`;
+    const structureKey = getStructureKey(normalizedEndpoint);
 
     // Store in our map using the structure as key for deduplication
     if (normalizedEndpoint.includes('{') && normalizedEndpoint.includes('}')) {
@@ -142,14 +231,131 @@ export function generateCoverageReport(
   hitEndpoints: string[],
   allServerErrors: Record<string, IServerErrorRecord>,
   outputPath: string,
-  endpointPatternFile?: string
+  endpointPatternFile?: string,
+  inputs: IReportInputs = {}
 ): void {
   // Load endpoint patterns from file if provided
   const patterns = loadEndpointPatterns(endpointPatternFile);
 
+  // Coverage of the default spec
+  const coverage = generateSpecCoverage(
+    {
+      name: 'default',
+      apiSpec: inputs.apiSpec,
+      specEndpoints,
+      hitEndpoints,
+      serverErrors: allServerErrors,
+      endpointUsage: inputs.endpointUsage,
+      hitCounts: inputs.hitCounts,
+      workers: inputs.workers,
+    },
+    patterns,
+    inputs
+  );
+
+  // Create the full report object
+  const report: ICoverageReport = {
+    ...coverage,
+    timestamp: new Date().toISOString(),
+  };
+
+  // Each additional spec gets its own section, plus totals across all specs
+  if (inputs.specs && inputs.specs.length > 0) {
+    const specs: Record<string, TSpecCoverageReport> = {};
+
+    for (const spec of inputs.specs) {
+      log.info(`Coverage of spec ${spec.name}:`);
+      specs[spec.name] = generateSpecCoverage(spec, patterns, inputs);
+    }
+
+    report.specs = specs;
+    report.rollup = generateRollup([coverage, ...Object.values(specs)]);
+
+    log.info(
+      `Overall coverage across ${inputs.specs.length + 1} specs: ${report.rollup.summary.coveragePercentage}%`
+    );
+  }
+
+  // Compare each spec with its section in the baseline report
+  const baseline = loadBaselineReport(inputs.baselinePath);
+  if (baseline) {
+    report.baselineDiff = generateBaselineDiff(report, baseline, baseline.timestamp);
+
+    for (const [name, spec] of Object.entries(report.specs || {})) {
+      const baselineSpec = baseline.specs?.[name];
+      if (baselineSpec) {
+        spec.baselineDiff = generateBaselineDiff(spec, baselineSpec, baseline.timestamp);
+      } else {
+        log.info(`Spec ${name} is not in the baseline report`);
+      }
+    }
+  }
+
+  // Write the report to file
+  try {
+    // Ensure directory exists before writing
+    const directory = path.dirname(outputPath);
+    if (!existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+      log.info(`Created directory for report: ${directory}`);
+    }
+
+    writeFileSync(outputPath, JSON.stringify(report, null, 2));
+    log.info(`Coverage report saved to ${outputPath}`);
+  } catch (err) {
+    log.error(`Failed to write coverage report to ${outputPath}`, err);
+  }
+
+  if (inputs.htmlOutputPath) {
+    writeHtmlReport(report, inputs.htmlOutputPath);
+  }
+}
+
+/**
+ * Write the HTML version of the report
+ */
+function writeHtmlReport(report: ICoverageReport, htmlOutputPath: string): void {
+  try {
+    fs.mkdirSync(path.dirname(htmlOutputPath), { recursive: true });
+    writeFileSync(htmlOutputPath, renderHtmlReport(report));
+    log.info(`HTML coverage report saved to ${htmlOutputPath}`);
+  } catch (err) {
+    log.error(`Failed to write HTML coverage report to ${htmlOutputPath}`, err);
+  }
+}
+
+/**
+ * Compute the coverage of a single spec from the endpoints hit during the run
+ */
+function generateSpecCoverage(
+  input: ISpecReportInput,
+  patterns: IEndpointPattern[],
+  { slowEndpointThreshold, excludeOperations }: IReportInputs = {}
+): TSpecCoverageReport {
+  const { apiSpec, serverErrors: allServerErrors } = input;
+
+  // Usage details keyed by the spec endpoint they belong to
+  const endpointUsage = input.endpointUsage
+    ? mergeUsageBySpecEndpoint(input.specEndpoints, input.endpointUsage)
+    : {};
+
+  // Excluded operations are listed on their own and left out of the totals, and calls to them
+  // are not reported as extra endpoints
+  const exclusionReasons = findExcludedOperations(apiSpec || null, excludeOperations);
+  const excludedEndpoints = new Set(
+    [...input.specEndpoints].filter((endpoint) => exclusionReasons[endpoint])
+  );
+  const specEndpoints = new Set(
+    [...input.specEndpoints].filter((endpoint) => !excludedEndpoints.has(endpoint))
+  );
+
   // Normalize endpoints using patterns if available
-  const normalizedHitEndpoints =
-    patterns.length > 0 ? normalizeEndpoints(hitEndpoints, patterns) : hitEndpoints;
+  const allHitEndpoints =
+    patterns.length > 0 ? normalizeEndpoints(input.hitEndpoints, patterns) : input.hitEndpoints;
+  const excludedHits = findTestedEndpoints(excludedEndpoints, allHitEndpoints);
+  const normalizedHitEndpoints = allHitEndpoints.filter(
+    (endpoint) => findTestedEndpoints(excludedEndpoints, [endpoint]).size === 0
+  );
 
   log.info(
     `Generating report with ${specEndpoints.size} spec endpoints and ${normalizedHitEndpoints.length} hit endpoints`
@@ -165,8 +371,7 @@ export function generateCoverageReport(
   // by comparing their structure (ignoring parameter values)
   const specEndpointsStructures = new Map<string, string>();
   [...specEndpoints].forEach((endpoint) => {
-    const [method, path] = endpoint.split(' ', 2);
-    const structureKey = `${method} ${path.replace(/\{[^}]+\}/g, '{PARAM}')}`;
+    const structureKey = getStructureKey(endpoint);
     specEndpointsStructures.set(structureKey, endpoint);
   });
 
@@ -182,8 +387,7 @@ export function generateCoverageReport(
       return;
     }
 
-    const [method, path] = endpoint.split(' ', 2);
-    const structureKey = `${method} ${path.replace(/\{[^}]+\}/g, '{PARAM}')}`;
+    const structureKey = getStructureKey(endpoint);
 
     if (specEndpointsStructures.has(structureKey)) {
       // This endpoint matches a spec endpoint structurally, so it's actually a test of that endpoint
@@ -209,8 +413,7 @@ export function generateCoverageReport(
   // Additional deduplication for extraEndpoints in case there are templated and concrete versions
   const extraEndpointsByStructure = new Map<string, string>();
   for (const endpoint of realExtraEndpoints) {
-    const [method, path] = endpoint.split(' ', 2);
-    const structureKey = `${method} ${path.replace(/\{[^}]+\}/g, '{PARAM}')}`;
+    const structureKey = getStructureKey(endpoint);
 
     if (endpoint.includes('{') && endpoint.includes('}')) {
       // Always prefer template versions for extra endpoints too
@@ -247,8 +450,7 @@ export function generateCoverageReport(
   log.info(`Coverage: ${coveragePercentage.toFixed(2)}%`);
   log.info(`Total Server Errors: ${serverErrorStats.totalServerErrors}`);
 
-  // Create the full report object
-  const report: ICoverageReport = {
+  const coverage: TSpecCoverageReport = {
     summary: {
       totalEndpoints,
       testedEndpoints: testedCount,
@@ -263,23 +465,162 @@ export function generateCoverageReport(
     },
     extraEndpoints: dedupedExtraEndpoints,
     serverErrors: allServerErrors,
-    timestamp: new Date().toISOString(),
   };
 
-  // Write the report to file
-  try {
-    // Ensure directory exists before writing
-    const directory = path.dirname(outputPath);
-    if (!existsSync(directory)) {
-      fs.mkdirSync(directory, { recursive: true });
-      log.info(`Created directory for report: ${directory}`);
+  if (excludedEndpoints.size > 0) {
+    log.info(`Excluded from coverage: ${excludedEndpoints.size}`);
+    coverage.excludedEndpoints = Object.fromEntries(
+      [...excludedEndpoints].map((endpoint) => [
+        endpoint,
+        { reason: exclusionReasons[endpoint], tested: excludedHits.has(endpoint) },
+      ])
+    );
+  }
+
+  // Client errors (4xx) are tracked unless trackClientErrors is disabled
+  const clientErrorStats = generateClientErrorStats(endpointUsage);
+  if (clientErrorStats.totalClientErrors > 0) {
+    coverage.clientErrorStats = clientErrorStats;
+  }
+
+  const networkFailures = generateNetworkFailures(endpointUsage);
+  if (Object.keys(networkFailures.endpoints).length > 0) {
+    coverage.networkFailures = networkFailures;
+  }
+
+  const errorStatsByEndpoint = generateErrorStatsByEndpoint(endpointUsage);
+  if (Object.keys(errorStatsByEndpoint).length > 0) {
+    coverage.errorStatsByEndpoint = errorStatsByEndpoint;
+  }
+
+  // Call counts only exist when the worker files recorded them
+  if (input.hitCounts) {
+    coverage.endpointStats = generateEndpointStats(allTested, input.hitCounts, endpointUsage);
+  }
+
+  const performance = generatePerformance(endpointUsage, slowEndpointThreshold);
+  if (Object.keys(performance.endpoints).length > 0) {
+    coverage.performance = performance;
+  }
+
+  // Coverage of each worker and of each capability, from the worker files that name them
+  if (input.workers && input.workers.length > 0) {
+    coverage.workerCoverage = generateWorkerCoverage(specEndpoints, input.workers);
+    coverage.capabilityCoverage = generateCapabilityCoverage(specEndpoints, input.workers);
+  }
+
+  // Which test called which endpoint, when requests were made inside tests
+  const traceability = generateTraceability(endpointUsage);
+  if (Object.keys(traceability.tests).length > 0) {
+    coverage.traceability = traceability;
+  }
+
+  // Break the hits down by spec server when requests were matched to the spec's servers
+  const serverHits = generateServerHits(endpointUsage);
+  if (Object.keys(serverHits).length > 0) {
+    coverage.serverHits = serverHits;
+  }
+
+  // Compare the documented responses and parameters of each operation with the requests
+  if (apiSpec) {
+    const operations = extractOperationMetadata(apiSpec);
+    const includedOperations = Object.fromEntries(
+      Object.entries(operations).filter(([endpoint]) => !excludedEndpoints.has(endpoint))
+    );
+    coverage.tagCoverage = generateTagCoverage(apiSpec, includedOperations, allTested);
+    coverage.operationIdCoverage = generateOperationIdCoverage(includedOperations, allTested);
+    coverage.operations = Object.fromEntries(
+      Object.entries(operations).map(([endpoint, metadata]) => [
+        endpoint,
+        { ...metadata, tested: allTested.includes(endpoint) },
+      ])
+    );
+    coverage.statusCodeCoverage = generateStatusCodeCoverage(apiSpec, endpointUsage);
+    coverage.queryParameterCoverage = generateParameterCoverage(
+      extractParametersFromSpec(apiSpec, 'query'),
+      endpointUsage,
+      'query',
+      'Query parameter'
+    );
+    coverage.headerParameterCoverage = generateParameterCoverage(
+      extractParametersFromSpec(apiSpec, 'header'),
+      endpointUsage,
+      'header',
+      'Header parameter'
+    );
+    coverage.cookieParameterCoverage = generateParameterCoverage(
+      extractParametersFromSpec(apiSpec, 'cookie'),
+      endpointUsage,
+      'cookie',
+      'Cookie parameter'
+    );
+    coverage.requestBodyCoverage = generateRequestBodyCoverage(apiSpec, endpointUsage);
+  }
+
+  // Responses are only validated when validateResponses is enabled
+  if (Object.values(endpointUsage).some((usage) => usage.validatedResponses)) {
+    coverage.contractViolations = generateContractViolations(endpointUsage);
+  }
+
+  // Requests are only validated when validateRequests is enabled
+  if (Object.values(endpointUsage).some((usage) => usage.validatedRequests)) {
+    coverage.requestViolations = generateRequestViolations(endpointUsage);
+  }
+
+  return coverage;
+}
+
+/**
+ * Sum the coverage of several specs
+ */
+function generateRollup(sections: TSpecCoverageReport[]): ICoverageRollup {
+  const summary = {
+    totalEndpoints: 0,
+    testedEndpoints: 0,
+    untestedEndpoints: 0,
+    coveragePercentage: 0,
+  };
+  const methodCoverage: Record<string, IMethodCoverage> = {};
+  const serverErrorStats: IServerErrorStats = {
+    totalServerErrors: 0,
+    statusCodeCounts: {},
+    errorsByEndpoint: [],
+  };
+
+  for (const section of sections) {
+    summary.totalEndpoints += section.summary.totalEndpoints;
+    summary.testedEndpoints += section.summary.testedEndpoints;
+    summary.untestedEndpoints += section.summary.untestedEndpoints;
+
+    for (const [method, { total, tested }] of Object.entries(section.methodCoverage)) {
+      if (!methodCoverage[method]) {
+        methodCoverage[method] = { total: 0, tested: 0, percentage: 0 };
+      }
+      methodCoverage[method].total += total;
+      methodCoverage[method].tested += tested;
     }
 
-    writeFileSync(outputPath, JSON.stringify(report, null, 2));
-    log.info(`Coverage report saved to ${outputPath}`);
-  } catch (err) {
-    log.error(`Failed to write coverage report to ${outputPath}`, err);
+    serverErrorStats.totalServerErrors += section.serverErrorStats.totalServerErrors;
+    for (const [code, count] of Object.entries(section.serverErrorStats.statusCodeCounts)) {
+      serverErrorStats.statusCodeCounts[code] =
+        (serverErrorStats.statusCodeCounts[code] || 0) + count;
+    }
+    serverErrorStats.errorsByEndpoint.push(...section.serverErrorStats.errorsByEndpoint);
+  }
+
+  if (summary.totalEndpoints > 0) {
+    summary.coveragePercentage = parseFloat(
+      ((summary.testedEndpoints / summary.totalEndpoints) * 100).toFixed(2)
+    );
   }
+
+  Object.values(methodCoverage).forEach((coverage) => {
+    if (coverage.total > 0) {
+      coverage.percentage = parseFloat(((coverage.tested / coverage.total) * 100).toFixed(2));
+    }
+  });
+
+  return { summary, methodCoverage, serverErrorStats };
 }
 
 /**
@@ -318,6 +659,859 @@ function generateMethodCoverage(
   return methodCoverage;
 }
 
+/**
+ * Merge usage records by the spec endpoint they belong to
+ * Hits are resolved to their spec endpoint by structure (ignoring parameter names)
+ */
+function mergeUsageBySpecEndpoint(
+  specEndpoints: Set<string>,
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): Record<string, IEndpointUsageRecord> {
+  const specEndpointsStructures = new Map<string, string>();
+  [...specEndpoints].forEach((endpoint) => {
+    specEndpointsStructures.set(getStructureKey(endpoint), endpoint);
+  });
+
+  const mergedUsage: Record<string, IEndpointUsageRecord> = {};
+
+  for (const [endpoint, record] of Object.entries(endpointUsage)) {
+    const structureKey = getStructureKey(endpoint);
+    const specEndpoint = specEndpointsStructures.get(structureKey) || endpoint;
+
+    if (!mergedUsage[specEndpoint]) {
+      mergedUsage[specEndpoint] = createEndpointUsageRecord();
+    }
+
+    mergeEndpointUsageRecord(mergedUsage[specEndpoint], record);
+  }
+
+  return mergedUsage;
+}
+
+/**
+ * Calculate the number of calls, first and last call and server error rate of every tested endpoint
+ */
+function generateEndpointStats(
+  testedEndpoints: string[],
+  hitCounts: Record<string, IEndpointHitRecord>,
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): Record<string, IEndpointCallStats> {
+  const testedStructures = new Map<string, string>();
+  testedEndpoints.forEach((endpoint) => {
+    testedStructures.set(getStructureKey(endpoint), endpoint);
+  });
+
+  const endpointStats: Record<string, IEndpointCallStats> = {};
+
+  for (const [endpoint, record] of Object.entries(hitCounts)) {
+    const structureKey = getStructureKey(endpoint);
+    const specEndpoint = testedStructures.get(structureKey);
+    if (!specEndpoint) {
+      continue;
+    }
+
+    const stats = endpointStats[specEndpoint];
+    if (!stats) {
+      endpointStats[specEndpoint] = { ...record, serverErrors: 0, errorRate: 0 };
+      continue;
+    }
+
+    stats.count += record.count;
+    stats.firstSeen = record.firstSeen < stats.firstSeen ? record.firstSeen : stats.firstSeen;
+    stats.lastSeen = record.lastSeen > stats.lastSeen ? record.lastSeen : stats.lastSeen;
+  }
+
+  for (const [endpoint, stats] of Object.entries(endpointStats)) {
+    const statusCodes = endpointUsage[endpoint]?.statusCodes || {};
+    stats.serverErrors = Object.entries(statusCodes)
+      .filter(([status]) => status.charAt(0) === '5')
+      .reduce((sum, [, count]) => sum + count, 0);
+    stats.errorRate =
+      stats.count > 0 ? parseFloat(Math.min(stats.serverErrors / stats.count, 1).toFixed(4)) : 0;
+  }
+
+  return endpointStats;
+}
+
+/**
+ * Calculate the latency and payload size distributions of every operation
+ * With a threshold, operations whose p95 latency exceeds it are listed as slow, slowest first
+ */
+function generatePerformance(
+  endpointUsage: Record<string, IEndpointUsageRecord>,
+  slowEndpointThreshold?: number
+): IPerformanceReport {
+  const report: IPerformanceReport = { endpoints: {} };
+
+  for (const [endpoint, usage] of Object.entries(endpointUsage)) {
+    const performance: IEndpointPerformance = {};
+    if (usage.latencies && usage.latencies.length > 0) {
+      performance.latency = getDistribution(usage.latencies);
+    }
+    if (usage.requestSizes && usage.requestSizes.length > 0) {
+      performance.requestSize = getDistribution(usage.requestSizes);
+    }
+    if (usage.responseSizes && usage.responseSizes.length > 0) {
+      performance.responseSize = getDistribution(usage.responseSizes);
+    }
+
+    if (Object.keys(performance).length > 0) {
+      report.endpoints[endpoint] = performance;
+    }
+  }
+
+  if (slowEndpointThreshold !== undefined) {
+    report.slowEndpointThreshold = slowEndpointThreshold;
+    report.slowEndpoints = Object.entries(report.endpoints)
+      .filter(([, { latency }]) => latency && latency.p95 > slowEndpointThreshold)
+      .map(([endpoint, { latency }]) => ({
+        endpoint,
+        p95: latency?.p95 || 0,
+        max: latency?.max || 0,
+      }))
+      .sort((a, b) => b.p95 - a.p95);
+
+    if (report.slowEndpoints.length > 0) {
+      log.warn(
+        `${report.slowEndpoints.length} endpoints have a p95 latency above ${slowEndpointThreshold}ms`
+      );
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Summarize sampled values with their minimum, average, percentiles (nearest rank) and maximum
+ */
+function getDistribution(values: number[]): IValueDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number): number =>
+    sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+  const sum = sorted.reduce((total, value) => total + value, 0);
+
+  return {
+    samples: sorted.length,
+    min: sorted[0],
+    avg: parseFloat((sum / sorted.length).toFixed(2)),
+    p50: percentile(50),
+    p95: percentile(95),
+    p99: percentile(99),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Calculate the coverage of the operations carrying each tag, and of each `x-tagGroups` group
+ */
+function generateTagCoverage(
+  apiSpec: IOpenAPIDocument,
+  operations: Record<string, IOperationMetadata>,
+  tested: string[]
+): ITagCoverageReport {
+  const endpointsByTag = new Map<string, string[]>();
+  for (const [endpoint, { tags }] of Object.entries(operations)) {
+    for (const tag of tags.length > 0 ? tags : ['(untagged)']) {
+      endpointsByTag.set(tag, [...(endpointsByTag.get(tag) || []), endpoint]);
+    }
+  }
+
+  const report: ITagCoverageReport = { tags: {} };
+  for (const [tag, endpoints] of endpointsByTag) {
+    report.tags[tag] = getTagCoverage(endpoints, tested);
+  }
+
+  const tagGroups = apiSpec['x-tagGroups'];
+  if (Array.isArray(tagGroups)) {
+    report.tagGroups = {};
+    for (const group of tagGroups as Array<{ name?: string; tags?: string[] }>) {
+      if (!group?.name) {
+        continue;
+      }
+
+      const tags = Array.isArray(group.tags) ? group.tags : [];
+      const endpoints = [...new Set(tags.flatMap((tag) => endpointsByTag.get(tag) || []))];
+      report.tagGroups[group.name] = { tags, ...getTagCoverage(endpoints, tested) };
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Count the tested and untested endpoints of a tag or tag group
+ */
+function getTagCoverage(endpoints: string[], tested: string[]): ITagCoverage {
+  const untested = endpoints.filter((endpoint) => !tested.includes(endpoint));
+  const testedCount = endpoints.length - untested.length;
+
+  return {
+    total: endpoints.length,
+    tested: testedCount,
+    percentage:
+      endpoints.length > 0 ? parseFloat(((testedCount / endpoints.length) * 100).toFixed(2)) : 0,
+    untested,
+  };
+}
+
+/**
+ * Index the operations by operationId
+ */
+function generateOperationIdCoverage(
+  operations: Record<string, IOperationMetadata>,
+  tested: string[]
+): Record<string, { endpoint: string; tested: boolean }> {
+  const operationIdCoverage: Record<string, { endpoint: string; tested: boolean }> = {};
+
+  for (const [endpoint, { operationId }] of Object.entries(operations)) {
+    if (operationId) {
+      operationIdCoverage[operationId] = { endpoint, tested: tested.includes(endpoint) };
+    }
+  }
+
+  return operationIdCoverage;
+}
+
+/**
+ * Calculate the coverage of every worker on its own
+ */
+function generateWorkerCoverage(
+  specEndpoints: Set<string>,
+  workers: IWorkerHits[]
+): Record<string, IWorkerCoverage> {
+  const total = specEndpoints.size;
+  const workerCoverage: Record<string, IWorkerCoverage> = {};
+
+  for (const { worker, endpoints } of workers) {
+    const tested = findTestedEndpoints(specEndpoints, endpoints);
+    workerCoverage[worker.workerId] = {
+      capability: worker.capability,
+      testedEndpoints: tested.size,
+      coveragePercentage: total > 0 ? parseFloat(((tested.size / total) * 100).toFixed(2)) : 0,
+    };
+  }
+
+  return workerCoverage;
+}
+
+/**
+ * Calculate the coverage of the workers sharing each capability, with the endpoints they never called
+ */
+function generateCapabilityCoverage(
+  specEndpoints: Set<string>,
+  workers: IWorkerHits[]
+): Record<string, ICapabilityCoverage> {
+  const workersByCapability = new Map<string, IWorkerHits[]>();
+  for (const workerHits of workers) {
+    const { capability } = workerHits.worker;
+    workersByCapability.set(capability, [
+      ...(workersByCapability.get(capability) || []),
+      workerHits,
+    ]);
+  }
+
+  const total = specEndpoints.size;
+  const capabilityCoverage: Record<string, ICapabilityCoverage> = {};
+
+  for (const [capability, capabilityWorkers] of workersByCapability) {
+    const tested = findTestedEndpoints(
+      specEndpoints,
+      capabilityWorkers.flatMap(({ endpoints }) => endpoints)
+    );
+    const untested = [...specEndpoints].filter((endpoint) => !tested.has(endpoint));
+
+    capabilityCoverage[capability] = {
+      workers: capabilityWorkers.map(({ worker }) => worker.workerId),
+      testedEndpoints: tested.size,
+      untestedEndpoints: untested.length,
+      coveragePercentage: total > 0 ? parseFloat(((tested.size / total) * 100).toFixed(2)) : 0,
+      untested,
+    };
+  }
+
+  return capabilityCoverage;
+}
+
+/**
+ * Find the spec endpoints matched by hit endpoints, exactly or by their structure
+ */
+function findTestedEndpoints(specEndpoints: Set<string>, hitEndpoints: string[]): Set<string> {
+  const specEndpointsStructures = new Map<string, string>();
+  [...specEndpoints].forEach((endpoint) => {
+    specEndpointsStructures.set(getStructureKey(endpoint), endpoint);
+  });
+
+  const tested = new Set<string>();
+  for (const endpoint of hitEndpoints) {
+    const specEndpoint = specEndpoints.has(endpoint)
+      ? endpoint
+      : specEndpointsStructures.get(getStructureKey(endpoint));
+    if (specEndpoint) {
+      tested.add(specEndpoint);
+    }
+  }
+
+  return tested;
+}
+
+/**
+ * List the endpoints whose coverage, server errors or documentation changed since the baseline
+ */
+function generateBaselineDiff(
+  current: TSpecCoverageReport,
+  baseline: TSpecCoverageReport,
+  baselineTimestamp?: string
+): IBaselineDiff {
+  const baselineTested = new Set(baseline.endpoints.tested);
+  const baselineServerErrors = new Set(
+    (baseline.serverErrorStats?.errorsByEndpoint || []).map(({ endpoint }) => endpoint)
+  );
+  const baselineExtra = new Set(baseline.extraEndpoints || []);
+
+  const diff: IBaselineDiff = {
+    baselineTimestamp,
+    coverageChange: parseFloat(
+      (current.summary.coveragePercentage - baseline.summary.coveragePercentage).toFixed(2)
+    ),
+    newlyCovered: current.endpoints.tested.filter((endpoint) => !baselineTested.has(endpoint)),
+    // Endpoints removed from the spec did not lose coverage
+    lostCoverage: current.endpoints.untested.filter((endpoint) => baselineTested.has(endpoint)),
+    newServerErrorEndpoints: current.serverErrorStats.errorsByEndpoint
+      .map(({ endpoint }) => endpoint)
+      .filter((endpoint) => !baselineServerErrors.has(endpoint)),
+    newUndocumentedEndpoints: (current.extraEndpoints || []).filter(
+      (endpoint) => !baselineExtra.has(endpoint)
+    ),
+  };
+
+  log.info(
+    `Since the baseline: ${diff.coverageChange > 0 ? '+' : ''}${diff.coverageChange}% coverage, ${diff.newlyCovered.length} newly covered, ${diff.lostCoverage.length} lost`
+  );
+
+  return diff;
+}
+
+/**
+ * Build the test to endpoints and endpoint to tests indexes from the calls attributed to tests
+ */
+function generateTraceability(
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): ITraceabilityMatrix {
+  const matrix: ITraceabilityMatrix = { tests: {}, endpoints: {} };
+
+  for (const [endpoint, usage] of Object.entries(endpointUsage).sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    const testIds = Object.keys(usage.tests || {}).sort();
+    if (testIds.length === 0) {
+      continue;
+    }
+
+    matrix.endpoints[endpoint] = testIds;
+    for (const testId of testIds) {
+      const { count, ...test } = (usage.tests || {})[testId];
+      if (!matrix.tests[testId]) {
+        matrix.tests[testId] = { ...test, endpoints: {} };
+      }
+      matrix.tests[testId].endpoints[endpoint] = count;
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Group hit endpoints by the spec server they were sent to
+ */
+function generateServerHits(
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): Record<string, string[]> {
+  const serverHits: Record<string, string[]> = {};
+
+  for (const [endpoint, { servers }] of Object.entries(endpointUsage)) {
+    for (const server of Object.keys(servers)) {
+      if (!serverHits[server]) {
+        serverHits[server] = [];
+      }
+      serverHits[server].push(endpoint);
+    }
+  }
+
+  Object.values(serverHits).forEach((endpoints) => endpoints.sort());
+  return serverHits;
+}
+
+/**
+ * Compare the documented response codes of every operation with the observed statuses
+ * Range keys (e.g. 4XX) match any status of the range, `default` matches undocumented statuses
+ */
+function generateStatusCodeCoverage(
+  apiSpec: IOpenAPIDocument,
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): IStatusCodeCoverage {
+  const operations: Record<string, IOperationStatusCoverage> = {};
+  let documentedCodes = 0;
+  let observedCodes = 0;
+  let undocumentedCodes = 0;
+
+  for (const [endpoint, documented] of Object.entries(extractResponseCodesFromSpec(apiSpec))) {
+    const observed = endpointUsage[endpoint]?.statusCodes || {};
+    const statuses = Object.keys(observed);
+
+    // Statuses covered by an explicit code or a range, the rest falls to `default`
+    const isExplicitlyDocumented = (status: string): boolean =>
+      documented.some((code) => code !== 'default' && responseCodeMatches(code, status));
+    const hasDefault = documented.includes('default');
+
+    const missing = documented.filter((code) =>
+      code === 'default'
+        ? !statuses.some((status) => !isExplicitlyDocumented(status))
+        : !statuses.some((status) => responseCodeMatches(code, status))
+    );
+    const undocumented = hasDefault
+      ? []
+      : statuses.filter((status) => !isExplicitlyDocumented(status));
+
+    operations[endpoint] = { documented, observed, missing, undocumented };
+
+    documentedCodes += documented.length;
+    observedCodes += documented.length - missing.length;
+    undocumentedCodes += undocumented.length;
+  }
+
+  const coveragePercentage =
+    documentedCodes > 0 ? parseFloat(((observedCodes / documentedCodes) * 100).toFixed(2)) : 0;
+
+  log.info(
+    `Response status coverage: ${observedCodes}/${documentedCodes} documented codes observed, ${undocumentedCodes} undocumented`
+  );
+
+  return {
+    summary: { documentedCodes, observedCodes, undocumentedCodes, coveragePercentage },
+    operations,
+  };
+}
+
+/**
+ * Get the parameters of a location (query, header or cookie) sent to an endpoint
+ * Header names are lowercased, and headers set by clients and browsers are left out
+ */
+function getSentParams(usage: IEndpointUsageRecord | undefined, location: string): string[] {
+  if (!usage) {
+    return [];
+  }
+
+  switch (location) {
+    case 'query':
+      return Object.keys(usage.queryParams || {});
+    case 'header':
+      return Object.keys(usage.headers || {}).filter(
+        (name) => !STANDARD_HEADERS.has(name) && !name.startsWith('sec-')
+      );
+    case 'cookie':
+      return Object.keys(usage.cookies || {});
+    default:
+      return [];
+  }
+}
+
+/**
+ * Compare the documented parameters of every operation with the parameters sent
+ * Only operations that document or were sent parameters of this location are listed
+ */
+function generateParameterCoverage(
+  documentedParams: Record<string, IParameterObject[]>,
+  endpointUsage: Record<string, IEndpointUsageRecord>,
+  location: string,
+  label: string
+): IParameterCoverage {
+  const operations: Record<string, IOperationParameterCoverage> = {};
+  let documentedCount = 0;
+  let exercisedCount = 0;
+  let undocumentedCount = 0;
+
+  for (const [endpoint, params] of Object.entries(documentedParams)) {
+    const documented = params.map(({ name }) => name as string);
+    const usage = endpointUsage[endpoint];
+    const sent = getSentParams(usage, location);
+
+    // Header names are case-insensitive
+    const toDocumentedName = (name: string): string | undefined =>
+      location === 'header'
+        ? documented.find((candidate) => candidate.toLowerCase() === name)
+        : documented.find((candidate) => candidate === name);
+
+    if (documented.length === 0 && sent.length === 0) {
+      continue;
+    }
+
+    // Array and deep object parameters are sent as ids[] or filter[status]
+    const exercisedNames = new Set<string>();
+    const undocumented: string[] = [];
+    for (const name of sent) {
+      const documentedName = toDocumentedName(name) || toDocumentedName(name.replace(/\[.*$/, ''));
+      if (documentedName) {
+        exercisedNames.add(documentedName);
+      } else {
+        undocumented.push(name);
+      }
+    }
+
+    const exercised = documented.filter((name) => exercisedNames.has(name));
+    const missing = documented.filter((name) => !exercisedNames.has(name));
+    const missingRequired = params
+      .filter(({ name, required }) => required && !exercisedNames.has(name as string))
+      .map(({ name }) => name as string);
+    operations[endpoint] = { documented, exercised, missing, missingRequired, undocumented };
+
+    // Values are only present for parameters the user opted into recording
+    const values = getRecordedValues(usage, location, documented);
+    if (values) {
+      operations[endpoint].values = values;
+    }
+
+    documentedCount += documented.length;
+    exercisedCount += exercised.length;
+    undocumentedCount += undocumented.length;
+  }
+
+  const coveragePercentage =
+    documentedCount > 0 ? parseFloat(((exercisedCount / documentedCount) * 100).toFixed(2)) : 0;
+
+  log.info(
+    `${label} coverage: ${exercisedCount}/${documentedCount} documented parameters sent, ${undocumentedCount} undocumented`
+  );
+
+  return {
+    summary: {
+      documentedParams: documentedCount,
+      exercisedParams: exercisedCount,
+      undocumentedParams: undocumentedCount,
+      coveragePercentage,
+    },
+    operations,
+  };
+}
+
+/**
+ * Compare the properties of every JSON requestBody schema with the body properties sent
+ * Properties are addressed by path (`address.city`, `items[].sku`), keys of free-form objects
+ * and maps are never reported as undocumented
+ */
+function generateRequestBodyCoverage(
+  apiSpec: IOpenAPIDocument,
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): IRequestBodyCoverage {
+  const operations: Record<string, IOperationBodyCoverage> = {};
+  let documentedCount = 0;
+  let exercisedCount = 0;
+  let undocumentedCount = 0;
+
+  for (const [endpoint, schema] of Object.entries(extractRequestBodySchemas(apiSpec))) {
+    const { properties, openPaths } = collectSchemaProperties(apiSpec, schema);
+    const sent = new Set(Object.keys(endpointUsage[endpoint]?.bodyProperties || {}));
+
+    const documented = properties.map(({ path }) => path);
+    const exercised = documented.filter((path) => sent.has(path));
+    const missing = documented.filter((path) => !sent.has(path));
+
+    // Required properties only count as missing when their parent object was sent
+    const missingRequired = properties
+      .filter(({ path, required }) => {
+        if (!required || sent.has(path) || sent.size === 0) {
+          return false;
+        }
+
+        const parent = path.slice(0, Math.max(path.lastIndexOf('.'), 0)).replace(/\[\]$/, '');
+        return !parent || sent.has(parent);
+      })
+      .map(({ path }) => path);
+
+    const documentedPaths = new Set(documented);
+    const undocumented = [...sent].filter(
+      (path) =>
+        !documentedPaths.has(path) &&
+        !openPaths.some(
+          (openPath) =>
+            !openPath || path.startsWith(`${openPath}.`) || path.startsWith(`${openPath}[]`)
+        )
+    );
+
+    operations[endpoint] = { documented, exercised, missing, missingRequired, undocumented };
+
+    documentedCount += documented.length;
+    exercisedCount += exercised.length;
+    undocumentedCount += undocumented.length;
+  }
+
+  const coveragePercentage =
+    documentedCount > 0 ? parseFloat(((exercisedCount / documentedCount) * 100).toFixed(2)) : 0;
+
+  log.info(
+    `Request body coverage: ${exercisedCount}/${documentedCount} documented properties sent, ${undocumentedCount} undocumented`
+  );
+
+  return {
+    summary: {
+      documentedProperties: documentedCount,
+      exercisedProperties: exercisedCount,
+      undocumentedProperties: undocumentedCount,
+      coveragePercentage,
+    },
+    operations,
+  };
+}
+
+/**
+ * List the response schema violations of every operation
+ */
+function generateContractViolations(
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): IContractViolationReport {
+  const operations: Record<string, IContractViolation[]> = {};
+  let validatedResponses = 0;
+  let invalidResponses = 0;
+
+  for (const [endpoint, usage] of Object.entries(endpointUsage)) {
+    validatedResponses += usage.validatedResponses || 0;
+    invalidResponses += usage.invalidResponses || 0;
+
+    if (usage.contractViolations && usage.contractViolations.length > 0) {
+      operations[endpoint] = [...usage.contractViolations].sort((a, b) => b.count - a.count);
+    }
+  }
+
+  const operationsWithViolations = Object.keys(operations).length;
+  if (operationsWithViolations > 0) {
+    log.warn(
+      `Contract violations: ${invalidResponses}/${validatedResponses} validated responses did not match the spec in ${operationsWithViolations} operations`
+    );
+  } else {
+    log.info(`Contract validation: all ${validatedResponses} validated responses match the spec`);
+  }
+
+  return {
+    summary: { validatedResponses, invalidResponses, operationsWithViolations },
+    operations,
+  };
+}
+
+/**
+ * Group the request violations of every operation by the test that sent the request
+ */
+function generateRequestViolations(
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): IRequestViolationReport {
+  const tests: IRequestViolationReport['tests'] = {};
+  let validatedRequests = 0;
+  let invalidRequests = 0;
+
+  for (const [endpoint, usage] of Object.entries(endpointUsage)) {
+    validatedRequests += usage.validatedRequests || 0;
+    invalidRequests += usage.invalidRequests || 0;
+
+    for (const { test, ...violation } of usage.requestViolations || []) {
+      if (!tests[test]) {
+        tests[test] = [];
+      }
+      tests[test].push({ endpoint, ...violation });
+    }
+  }
+
+  const testsWithViolations = Object.keys(tests).length;
+  if (testsWithViolations > 0) {
+    log.warn(
+      `Request violations: ${invalidRequests}/${validatedRequests} validated requests would be rejected by the spec, sent by ${testsWithViolations} tests`
+    );
+  } else {
+    log.info(`Request validation: all ${validatedRequests} validated requests match the spec`);
+  }
+
+  return {
+    summary: { validatedRequests, invalidRequests, testsWithViolations },
+    tests,
+  };
+}
+
+/**
+ * Get the recorded values of the documented parameters of a location
+ */
+function getRecordedValues(
+  usage: IEndpointUsageRecord | undefined,
+  location: string,
+  documented: string[]
+): Record<string, string[]> | undefined {
+  const values: Record<string, string[]> = {};
+
+  for (const [param, recorded] of Object.entries(usage?.parameterValues || {})) {
+    const separator = param.indexOf(':');
+    if (param.slice(0, separator) !== location) {
+      continue;
+    }
+
+    const name = param.slice(separator + 1);
+
+    const documentedName = documented.find((candidate) =>
+      location === 'header' ? candidate.toLowerCase() === name : candidate === name
+    );
+    values[documentedName || name] = recorded;
+  }
+
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+/**
+ * Check whether a documented response code (e.g. 200 or 2XX) matches an observed status
+ */
+function responseCodeMatches(code: string, status: string): boolean {
+  if (/^[1-5]XX$/i.test(code)) {
+    return status.charAt(0) === code.charAt(0);
+  }
+
+  return code === status;
+}
+
+/**
+ * Calculate client error (4xx) statistics, split into intentional and accidental responses
+ */
+function generateClientErrorStats(
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): IClientErrorStats {
+  const stats: IClientErrorStats = {
+    totalClientErrors: 0,
+    intentionalClientErrors: 0,
+    accidentalClientErrors: 0,
+    statusCodeCounts: {},
+    errorsByEndpoint: [],
+  };
+
+  for (const [endpoint, usage] of Object.entries(endpointUsage)) {
+    const intentional = sumCounts(usage.intentionalClientErrors);
+    const accidental = sumCounts(usage.accidentalClientErrors);
+    if (intentional + accidental === 0) {
+      continue;
+    }
+
+    for (const counts of [usage.intentionalClientErrors, usage.accidentalClientErrors]) {
+      Object.entries(counts || {}).forEach(([code, count]) => {
+        stats.statusCodeCounts[code] = (stats.statusCodeCounts[code] || 0) + count;
+      });
+    }
+
+    stats.totalClientErrors += intentional + accidental;
+    stats.intentionalClientErrors += intentional;
+    stats.accidentalClientErrors += accidental;
+    stats.errorsByEndpoint.push({
+      endpoint,
+      count: intentional + accidental,
+      intentional,
+      accidental,
+      ...(usage.lastClientError ? { lastError: usage.lastClientError } : {}),
+    });
+  }
+
+  if (stats.accidentalClientErrors > 0) {
+    log.warn(
+      `Accidental client errors: ${stats.accidentalClientErrors} of ${stats.totalClientErrors} 4xx responses were not expected by a test`
+    );
+  }
+
+  return stats;
+}
+
+/**
+ * Count the responses outside 2xx of every endpoint, with 4xx and 5xx counted separately,
+ * next to the requests that never got a response
+ */
+function generateErrorStatsByEndpoint(
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): Record<string, IEndpointErrorStats> {
+  const errorStats: Record<string, IEndpointErrorStats> = {};
+
+  for (const [endpoint, usage] of Object.entries(endpointUsage)) {
+    const statusCodes: Record<string, number> = {};
+    let serverErrors = 0;
+
+    for (const [status, count] of Object.entries(usage.statusCodes || {})) {
+      if (status.charAt(0) === '2') {
+        continue;
+      }
+
+      statusCodes[status] = count;
+      if (status.charAt(0) === '5') {
+        serverErrors += count;
+      }
+    }
+
+    const networkFailures = sumCounts(usage.networkFailures);
+    const inFlightRequests = usage.inFlightAtEnd || 0;
+    if (Object.keys(statusCodes).length === 0 && networkFailures + inFlightRequests === 0) {
+      continue;
+    }
+
+    const intentionalClientErrors = sumCounts(usage.intentionalClientErrors);
+    const accidentalClientErrors = sumCounts(usage.accidentalClientErrors);
+    errorStats[endpoint] = {
+      clientErrors: intentionalClientErrors + accidentalClientErrors,
+      intentionalClientErrors,
+      accidentalClientErrors,
+      serverErrors,
+      networkFailures,
+      inFlightRequests,
+      statusCodes,
+    };
+  }
+
+  return errorStats;
+}
+
+/**
+ * List the network-level failures and the requests left in flight of every endpoint
+ */
+function generateNetworkFailures(
+  endpointUsage: Record<string, IEndpointUsageRecord>
+): INetworkFailureReport {
+  const report: INetworkFailureReport = {
+    summary: { totalFailures: 0, inFlightRequests: 0, codeCounts: {} },
+    endpoints: {},
+  };
+
+  for (const [endpoint, usage] of Object.entries(endpointUsage)) {
+    const failures = usage.networkFailures || {};
+    const inFlight = usage.inFlightAtEnd || 0;
+    if (Object.keys(failures).length === 0 && inFlight === 0) {
+      continue;
+    }
+
+    for (const [code, count] of Object.entries(failures)) {
+      report.summary.codeCounts[code] = (report.summary.codeCounts[code] || 0) + count;
+      report.summary.totalFailures += count;
+    }
+    report.summary.inFlightRequests += inFlight;
+
+    report.endpoints[endpoint] = {
+      failures,
+      inFlight,
+      ...(usage.lastNetworkError ? { lastError: usage.lastNetworkError } : {}),
+    };
+  }
+
+  if (report.summary.totalFailures + report.summary.inFlightRequests > 0) {
+    log.warn(
+      `Requests without a response: ${report.summary.totalFailures} network failures, ${report.summary.inFlightRequests} still in flight`
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Sum the counts of a status -> count record
+ */
+function sumCounts(counts: Record<string, number> | undefined): number {
+  return Object.values(counts || {}).reduce((sum, count) => sum + count, 0);
+}
+
 /**
  * Calculate server error statistics
  */
@@ -0,0 +1,181 @@
+import {
+  IOpenAPIDocument,
+  IParameterObject,
+  ISchemaObject,
+  ISpecOperation,
+} from '../types/index.js';
+import { getOperationParameters, getRequestBody } from './openapi-processor.js';
+import { resolveSchemaRef } from '../utils/schema-walker.js';
+import { ISchemaViolation, validateSchema } from '../utils/schema-validator.js';
+
+// Header parameters the OpenAPI specification says to ignore
+const IGNORED_HEADER_PARAMETERS = ['accept', 'content-type', 'authorization'];
+
+/**
+ * Parts of a request checked against its operation
+ */
+export interface IValidatedRequest {
+  path: string; // Path relative to the server base path
+  query: URLSearchParams;
+  headers: Record<string, string>; // Lowercased header names
+  cookies: Record<string, string>;
+  body?: unknown; // Parsed JSON body
+  hasBody: boolean; // True when any body was sent, JSON or not
+  recordedValues?: string[]; // Lowercased header/cookie names whose values may be reported
+}
+
+/**
+ * Check a request against the operation it was sent to
+ * Reports missing required parameters and bodies, parameter values that violate their schema
+ * (type, pattern, enum, format, limits) and JSON bodies that do not match the requestBody schema
+ */
+export function validateRequest(
+  apiSpec: IOpenAPIDocument,
+  { endpoint, pathItem, operation }: ISpecOperation,
+  request: IValidatedRequest
+): ISchemaViolation[] {
+  const violations: ISchemaViolation[] = [];
+  const pathValues = getPathParameterValues(endpoint, request.path);
+
+  for (const param of getOperationParameters(apiSpec, pathItem, operation)) {
+    const name = param.name as string;
+    const location = param.in || '';
+    if (location === 'header' && IGNORED_HEADER_PARAMETERS.includes(name.toLowerCase())) {
+      continue;
+    }
+
+    const values = getParameterValues(param, request, pathValues);
+    if (values === undefined) {
+      continue;
+    }
+
+    const path = `${location}.${name}`;
+    if (values.length === 0) {
+      if (param.required) {
+        violations.push({ path, expected: 'required', actual: 'missing' });
+      }
+      continue;
+    }
+
+    // Header and cookie values may be secrets, only recordParameterValues are reported
+    const redactValues =
+      (location === 'header' || location === 'cookie') &&
+      !(request.recordedValues || []).includes(name.toLowerCase());
+    const schema = param.schema || (param as ISchemaObject);
+    const value = coerceValues(apiSpec, schema, values);
+    if (value !== undefined) {
+      violations.push(...validateSchema(apiSpec, schema, value, path, { redactValues }));
+    }
+  }
+
+  const requestBody = getRequestBody(apiSpec, pathItem, operation);
+  if (requestBody.required && !request.hasBody) {
+    violations.push({ path: 'body', expected: 'required', actual: 'missing' });
+  } else if (requestBody.schema && request.body !== undefined) {
+    violations.push(
+      ...validateSchema(apiSpec, requestBody.schema, request.body, 'body', { direction: 'request' })
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * Get the values sent for a parameter, undefined for locations that are not validated
+ */
+function getParameterValues(
+  param: IParameterObject,
+  request: IValidatedRequest,
+  pathValues: Record<string, string> | undefined
+): string[] | undefined {
+  const name = param.name as string;
+
+  switch (param.in) {
+    case 'path':
+      if (!pathValues) {
+        return undefined;
+      }
+      return pathValues[name] !== undefined ? [pathValues[name]] : [];
+    case 'query': {
+      const values = request.query.getAll(name);
+      return values.length > 0 ? values : request.query.getAll(`${name}[]`);
+    }
+    case 'header': {
+      const value = request.headers[name.toLowerCase()];
+      return value !== undefined ? [value] : [];
+    }
+    case 'cookie':
+      return request.cookies[name] !== undefined ? [request.cookies[name]] : [];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Extract the values of the path parameters by aligning the request path with the template
+ * Trailing and duplicate slashes are ignored. Returns undefined when the path does not line up
+ * with the template (e.g. an unstripped base path), so path parameters are not validated
+ */
+function getPathParameterValues(
+  endpoint: string,
+  path: string
+): Record<string, string> | undefined {
+  const template = endpoint
+    .slice(endpoint.indexOf(' ') + 1)
+    .split('/')
+    .filter(Boolean);
+  const segments = path.split('/').filter(Boolean);
+  const values: Record<string, string> = {};
+
+  if (template.length !== segments.length) {
+    return undefined;
+  }
+
+  template.forEach((segment, index) => {
+    const match = segment.match(/^\{([^}]+)\}$/);
+    if (match) {
+      try {
+        values[match[1]] = decodeURIComponent(segments[index]);
+      } catch (_e) {
+        values[match[1]] = segments[index];
+      }
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Convert the string values of a parameter to the type its schema expects
+ * Values that cannot be converted are kept as strings, so they are reported as wrong types.
+ * Object parameters (e.g. deepObject query parameters) are not converted nor validated
+ */
+function coerceValues(apiSpec: IOpenAPIDocument, schema: ISchemaObject, values: string[]): unknown {
+  const resolved = resolveSchemaRef(apiSpec, schema);
+  if (resolved?.type === 'object') {
+    return undefined;
+  }
+
+  if (resolved?.type === 'array') {
+    const items = resolveSchemaRef(apiSpec, resolved.items as ISchemaObject);
+    const allValues = values.length === 1 ? values[0].split(',') : values;
+    return allValues.map((value) => coerceValue(items?.type, value));
+  }
+
+  return coerceValue(resolved?.type, values[0]);
+}
+
+/**
+ * Convert a single string value to a number or boolean when the schema expects one
+ */
+function coerceValue(type: string | undefined, value: string): unknown {
+  if ((type === 'integer' || type === 'number') && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+
+  if (type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+
+  return value;
+}
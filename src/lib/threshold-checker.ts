@@ -0,0 +1,119 @@
+import { ICoverageReport, ICoverageThresholds, TSpecCoverageReport } from '../types/index.js';
+
+/**
+ * Check a coverage report against the configured thresholds
+ * Coverage, method and server error thresholds apply to the totals across all specs, tag
+ * thresholds to every spec documenting the tag
+ * @returns A description of every missed threshold
+ */
+export function checkThresholds(
+  report: ICoverageReport,
+  thresholds: ICoverageThresholds
+): string[] {
+  const violations: string[] = [];
+  const totals = report.rollup || report;
+
+  if (
+    thresholds.coverage !== undefined &&
+    totals.summary.coveragePercentage < thresholds.coverage
+  ) {
+    violations.push(
+      `Coverage ${totals.summary.coveragePercentage}% is below the threshold of ${thresholds.coverage}%`
+    );
+  }
+
+  for (const [method, minimum] of Object.entries(thresholds.methods || {})) {
+    const methodCoverage = totals.methodCoverage[method.toUpperCase()];
+    if (!methodCoverage) {
+      violations.push(`${method.toUpperCase()} coverage is missing from the report`);
+    } else if (methodCoverage.percentage < minimum) {
+      violations.push(
+        `${method.toUpperCase()} coverage ${methodCoverage.percentage}% is below the threshold of ${minimum}%`
+      );
+    }
+  }
+
+  const sections = getSections(report);
+
+  for (const [tag, minimum] of Object.entries(thresholds.tags || {})) {
+    const tagCoverages = sections.flatMap(([suffix, section]) => {
+      const tagCoverage = section.tagCoverage?.tags[tag];
+      return tagCoverage ? [[suffix, tagCoverage.percentage] as [string, number]] : [];
+    });
+    if (tagCoverages.length === 0) {
+      violations.push(`Tag ${tag} is missing from the report`);
+    }
+
+    for (const [suffix, percentage] of tagCoverages) {
+      if (percentage < minimum) {
+        violations.push(
+          `Tag ${tag}${suffix} coverage ${percentage}% is below the threshold of ${minimum}%`
+        );
+      }
+    }
+  }
+
+  if (
+    thresholds.maxServerErrors !== undefined &&
+    totals.serverErrorStats.totalServerErrors > thresholds.maxServerErrors
+  ) {
+    violations.push(
+      `${totals.serverErrorStats.totalServerErrors} server errors (5xx) exceed the maximum of ${thresholds.maxServerErrors}`
+    );
+  }
+
+  if (thresholds.maxUndocumentedEndpoints !== undefined) {
+    const undocumented = sections.flatMap(([, section]) => section.extraEndpoints || []);
+    if (undocumented.length > thresholds.maxUndocumentedEndpoints) {
+      violations.push(
+        `${undocumented.length} undocumented endpoints exceed the maximum of ${thresholds.maxUndocumentedEndpoints}: ${undocumented.join(', ')}`
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Describe the regressions of every spec since the baseline report
+ * @returns A description of every endpoint that lost coverage, started answering 5xx or
+ *   was called without being documented
+ */
+export function checkRegressions(report: ICoverageReport): string[] {
+  const violations: string[] = [];
+  const sections = getSections(report);
+
+  for (const [suffix, { baselineDiff }] of sections) {
+    if (!baselineDiff) {
+      continue;
+    }
+
+    if (baselineDiff.lostCoverage.length > 0) {
+      violations.push(`Coverage lost${suffix}: ${baselineDiff.lostCoverage.join(', ')}`);
+    }
+    if (baselineDiff.newServerErrorEndpoints.length > 0) {
+      violations.push(
+        `New server errors (5xx)${suffix}: ${baselineDiff.newServerErrorEndpoints.join(', ')}`
+      );
+    }
+    if (baselineDiff.newUndocumentedEndpoints.length > 0) {
+      violations.push(
+        `New undocumented endpoints${suffix}: ${baselineDiff.newUndocumentedEndpoints.join(', ')}`
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * List the default spec and every additional spec with the suffix naming it in messages
+ */
+function getSections(report: ICoverageReport): Array<[string, TSpecCoverageReport]> {
+  return [
+    ['', report],
+    ...Object.entries(report.specs || {}).map(
+      ([name, spec]) => [` (${name})`, spec] as [string, TSpecCoverageReport]
+    ),
+  ];
+}
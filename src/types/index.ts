@@ -7,6 +7,10 @@ export interface IOpenAPIDocument {
   openapi?: string;
   swagger?: string;
   paths: Record<string, IPathItem>;
+  servers?: IServerObject[]; // OpenAPI 3.x
+  host?: string; // Swagger 2.0
+  basePath?: string; // Swagger 2.0
+  schemes?: string[]; // Swagger 2.0
   components?: {
     parameters?: Record<string, IParameterObject>;
     [key: string]: unknown;
@@ -14,6 +18,31 @@ export interface IOpenAPIDocument {
   [key: string]: unknown;
 }
 
+/**
+ * Server object in OpenAPI 3.x spec
+ */
+export interface IServerObject {
+  url: string;
+  description?: string;
+  variables?: Record<
+    string,
+    {
+      default?: string;
+      enum?: string[];
+      description?: string;
+    }
+  >;
+}
+
+/**
+ * A server an API is served from, resolved from `servers` or `host`/`basePath`
+ */
+export interface IApiServer {
+  url: string; // Server URL with variables substituted
+  host?: string; // Host (with port) for absolute server URLs
+  basePath: string; // Path prefix without trailing slash ('' for the root)
+}
+
 /**
  * Parameter object in OpenAPI spec
  */
@@ -68,6 +97,22 @@ export interface IOperationObject {
   [key: string]: unknown;
 }
 
+/**
+ * Operation of a spec, found by endpoint
+ */
+export interface ISpecOperation {
+  endpoint: string; // Endpoint as documented (`METHOD /path/{param}`)
+  pathItem: IPathItem;
+  operation: IOperationObject;
+}
+
+/**
+ * Operation of a spec with the path template it is documented under
+ */
+export interface ISpecPathOperation extends ISpecOperation {
+  path: string;
+}
+
 /**
  * Define an interface for server error tracking
  */
@@ -77,6 +122,137 @@ export interface IServerErrorRecord {
   lastError?: string;
 }
 
+/**
+ * Number of calls made to an endpoint and when they were made
+ */
+export interface IEndpointHitRecord {
+  count: number;
+  firstSeen: string; // ISO timestamp of the first call
+  lastSeen: string; // ISO timestamp of the last call
+}
+
+/**
+ * Worker and the capability it ran with
+ */
+export interface IWorkerInfo {
+  workerId: string;
+  capability: string; // Readable capability, e.g. `chrome 120 on linux (device=Pixel 7)`
+  browserName?: string;
+  browserVersion?: string;
+  platformName?: string;
+  labels?: Record<string, string>; // Capability name -> value for the capabilityLabels option
+}
+
+/**
+ * Content of a worker's hit endpoints file
+ */
+export interface IHitEndpointsFile {
+  endpoints: string[];
+  hits: Record<string, IEndpointHitRecord>;
+  worker?: IWorkerInfo;
+}
+
+/**
+ * Endpoints hit by one worker
+ */
+export interface IWorkerHits {
+  worker: IWorkerInfo;
+  endpoints: string[];
+}
+
+/**
+ * Test or Cucumber scenario requests are attributed to
+ */
+export interface ITestReference {
+  file?: string; // Spec or feature file, relative to the working directory
+  suite?: string; // Parent suite or feature
+  title: string;
+}
+
+/**
+ * Calls a test made to an endpoint
+ */
+export interface ITestHitRecord extends ITestReference {
+  count: number;
+}
+
+/**
+ * Usage details recorded for each hit endpoint
+ */
+export interface IEndpointUsageRecord {
+  servers: Record<string, number>; // Spec server URL -> number of requests sent to it
+  statusCodes: Record<string, number>; // Response status -> number of responses
+  queryParams: Record<string, number>; // Query parameter name -> number of requests sending it
+  headers: Record<string, number>; // Lowercased header name -> number of requests sending it
+  cookies: Record<string, number>; // Cookie name -> number of requests sending it
+  parameterValues?: Record<string, string[]>; // `header:name`/`cookie:name` -> values sent (opt-in)
+  bodyProperties: Record<string, number>; // JSON body property path -> number of requests sending it
+  validatedResponses?: number; // Responses validated against their schema (validateResponses)
+  invalidResponses?: number; // Validated responses that violated their schema
+  contractViolations?: IContractViolation[];
+  intentionalClientErrors?: Record<string, number>; // 4xx status -> responses expected by the test
+  accidentalClientErrors?: Record<string, number>; // 4xx status -> responses no test expected
+  lastClientError?: string; // Message of the last accidental 4xx response
+  networkFailures?: Record<string, number>; // Error code (ECONNREFUSED, ETIMEDOUT, ...) -> requests
+  lastNetworkError?: string; // Message of the last network failure
+  inFlightAtEnd?: number; // Requests without a response when the worker finished
+  validatedRequests?: number; // Requests validated against the operation (validateRequests)
+  invalidRequests?: number; // Validated requests the API would reject
+  requestViolations?: IRequestViolation[];
+  tests?: Record<string, ITestHitRecord>; // Test id -> calls made by the test
+  latencies?: number[]; // Response times in milliseconds (sampled)
+  requestSizes?: number[]; // Request body sizes in bytes (sampled)
+  responseSizes?: number[]; // Response body sizes in bytes (sampled)
+}
+
+/**
+ * Mismatch between a response body and the schema documented for its status
+ */
+export interface IContractViolation {
+  status: string; // Response status
+  path: string; // Path to the offending field (e.g. `$.items[0].price`)
+  expected: string; // Expected type or constraint
+  actual: string; // Actual type or value
+  count: number; // Number of responses with this violation
+}
+
+/**
+ * Headers of a captured request, as provided by the HTTP client
+ */
+export type TRequestHeaders = Record<
+  string,
+  string | string[] | number | boolean | null | undefined
+>;
+
+/**
+ * Mismatch between a request and the operation it was sent to
+ */
+export interface IRequestViolation {
+  test: string; // Test (or scenario) that sent the request
+  path: string; // Offending parameter or body field (e.g. `query.limit`, `body.items[0].sku`)
+  expected: string; // Expected type or constraint
+  actual: string; // Actual type or value
+  count: number; // Number of requests with this violation
+}
+
+/**
+ * Details of a captured request beyond its method and URL
+ */
+export interface ICapturedRequest {
+  headers?: TRequestHeaders;
+  body?: unknown; // Raw body as provided by the HTTP client (object, JSON string, ...)
+}
+
+/**
+ * Details of a captured response beyond its status
+ */
+export interface ICapturedResponse {
+  body?: unknown; // Parsed body or raw text
+  contentType?: string;
+  duration?: number; // Milliseconds between sending the request and receiving the response
+  size?: number; // Body size in bytes, measured from the body when not given
+}
+
 /**
  * Define error record for merging from files
  */
@@ -95,17 +271,152 @@ export interface IPathPattern {
   priority?: number; // Optional priority (higher numbers match first)
 }
 
+/**
+ * Where the requests belonging to one OpenAPI spec are recorded
+ */
+export interface ITrackingTarget {
+  hitEndpoints: Set<string>;
+  endpointErrors: Record<string, IServerErrorRecord>;
+  apiSpec: IOpenAPIDocument | null;
+  hitEndpointsFile: string;
+  errorsFile: string;
+  endpointUsage: Record<string, IEndpointUsageRecord>;
+  usageFile: string;
+  customPatterns?: IPathPattern[];
+  hitCounts?: Record<string, IEndpointHitRecord>; // Endpoint -> calls made by this worker
+  pendingRequests?: Record<string, number>; // Endpoint -> requests still waiting for a response
+}
+
+/**
+ * Tracking target of an additional spec, selected by host and/or path prefix
+ */
+export interface ISpecTrackingTarget extends ITrackingTarget {
+  name: string;
+  hosts?: string[]; // Hosts routed to this spec (default: hosts of the spec's servers)
+  pathPrefix?: string; // Path prefix routed to this spec
+}
+
+/**
+ * An additional spec loaded by the service
+ */
+export interface ILoadedApiSpec {
+  target: ISpecTrackingTarget;
+  specEndpoints: Set<string>;
+  patterns: IPathPattern[]; // Patterns generated from the spec
+  directory: string; // Directory holding the spec's worker files
+}
+
+/**
+ * Shared state used by every request capture layer (axios, fetch, ...)
+ * The context itself is the target of the default spec (openApiPath)
+ */
+export interface ITrackingContext extends ITrackingTarget {
+  workerId: string;
+  specTargets?: ISpecTrackingTarget[];
+  requestFilter?: TRequestFilter;
+  webDriverEndpoint?: URL; // WebDriver server of the session, its commands are never tracked
+  recordParameterValues?: string[]; // Header/cookie parameters whose values are recorded
+  validateResponses?: boolean; // Validate response bodies against the spec
+  validateRequests?: boolean; // Validate requests against the spec
+  currentTest?: string; // Title of the running test or scenario
+  currentTestReference?: ITestReference; // Spec file, suite and title of the running test
+  workerInfo?: IWorkerInfo; // Capability of the worker, saved with its hit endpoints
+  trackClientErrors?: boolean; // Record 4xx responses
+  negativeTestPattern?: RegExp; // Tests whose 4xx responses are intentional
+  expectedErrorStatuses?: number[]; // 4xx statuses the running test expects (empty: any 4xx)
+  recordPathCallback?: (path: string) => void;
+}
+
 /**
  * Extended options interface for the service
  */
 export interface IOpenAPICoverageOptions {
   openApiPath?: string; // Path to OpenAPI specification
   outputPath?: string; // Path for coverage report output
+  htmlOutputPath?: string; // Path for an HTML version of the report (default: none)
   customPatterns?: IPathPattern[]; // Optional custom patterns (will be merged with auto-generated)
   enableDynamicPatternLearning?: boolean; // Enable learning patterns from API requests (default: true)
   endpointPatternFile?: string; // Path to JSON file containing endpoint pattern matching rules
+  trackFetch?: boolean; // Track requests made through the global fetch (default: true)
+  trackHttpModule?: boolean; // Track requests made through http/https.request (default: false)
+  trackBrowserRequests?: boolean; // Track XHR/fetch calls made inside the browser (default: false)
+  trackAxiosCreate?: boolean; // Track every instance created through axios.create (default: false)
+  interceptGlobalAxios?: boolean; // Add interceptors to the default axios instance (default: true)
+  limitToSpecHosts?: boolean; // Only track hosts declared in the spec's servers (default: true)
+  includeHosts?: string[]; // Only track these hosts, wildcards allowed (replaces the spec hosts)
+  excludeHosts?: string[]; // Never track these hosts, e.g. auth providers or analytics
+  includePaths?: Array<string | RegExp>; // Only track paths matching these globs/regexes
+  excludePaths?: Array<string | RegExp>; // Never track paths matching these globs/regexes
+  includeMethods?: string[]; // Only track these HTTP methods
+  excludeMethods?: string[]; // Never track these HTTP methods
+  apiSpecs?: IApiSpecConfig[]; // Additional specs, each routed by host and/or path prefix
+  recordParameterValues?: string[]; // Header/cookie names whose values are recorded (default: none)
+  validateResponses?: boolean; // Validate response bodies against the response schemas (default: false)
+  validateRequests?: boolean; // Validate parameters and bodies of requests against the spec (default: false)
+  trackClientErrors?: boolean; // Record 4xx responses as intentional or accidental (default: true)
+  negativeTestPattern?: string | RegExp; // Test titles whose 4xx responses are intentional
+  slowEndpointThreshold?: number; // p95 latency in ms above which endpoints are listed as slow
+  capabilityLabels?: string[]; // Capabilities (dot paths allowed) that tell capabilities apart in the report
+  excludeOperations?: IOperationExclusions; // Operations left out of the coverage percentage
+  thresholds?: ICoverageThresholds; // Minimums checked after the run, failing it when missed
+  baselinePath?: string; // Report of a previous run (e.g. of the main branch) to compare with
+  failOnRegression?: boolean; // Fail the run when coverage regressed since the baseline (default: false)
+}
+
+/**
+ * Coverage thresholds, checked by the launcher once the report is generated
+ */
+export interface ICoverageThresholds {
+  coverage?: number; // Minimum overall coverage percentage
+  methods?: Record<string, number>; // HTTP method -> minimum coverage percentage
+  tags?: Record<string, number>; // Tag -> minimum coverage percentage
+  maxServerErrors?: number; // Maximum number of 5xx responses
+  maxUndocumentedEndpoints?: number; // Maximum number of called endpoints missing from the spec
 }
 
+/**
+ * Operations left out of the coverage percentage, on top of those marked
+ * `x-coverage-ignore: true` or `x-internal: true` in the spec
+ */
+export interface IOperationExclusions {
+  deprecated?: boolean; // Exclude operations marked deprecated (default: false)
+  operationIds?: string[];
+  tags?: string[];
+  paths?: Array<string | RegExp>; // Globs or regexes matched against the spec paths, e.g. /admin/**
+}
+
+/**
+ * An additional OpenAPI spec for suites covering several services
+ */
+export interface IApiSpecConfig {
+  name: string; // Name of the spec's section in the report
+  openApiPath: string; // Path to the OpenAPI specification
+  hosts?: string[]; // Hosts routed to this spec, wildcards allowed (default: the spec's server hosts)
+  pathPrefix?: string; // Path prefix routed to this spec, removed before matching
+}
+
+/**
+ * Options deciding which requests are tracked
+ */
+/**
+ * Connection options of the WebDriver server the session talks to
+ */
+export type TWebDriverConnection = Pick<
+  Options.Connection,
+  'protocol' | 'hostname' | 'port' | 'path'
+>;
+
+export type TRequestFilter = Pick<
+  IOpenAPICoverageOptions,
+  | 'limitToSpecHosts'
+  | 'includeHosts'
+  | 'excludeHosts'
+  | 'includePaths'
+  | 'excludePaths'
+  | 'includeMethods'
+  | 'excludeMethods'
+>;
+
 /**
  * Endpoint pattern for matching and replacing in paths
  */
@@ -128,6 +439,31 @@ export interface IMethodCoverage {
   percentage: number;
 }
 
+/**
+ * Metadata of an operation, as documented in the spec
+ */
+export interface IOperationMetadata {
+  operationId?: string;
+  summary?: string;
+  tags: string[];
+  deprecated?: boolean;
+}
+
+/**
+ * Coverage of the operations carrying a tag
+ */
+export interface ITagCoverage extends IMethodCoverage {
+  untested: string[];
+}
+
+/**
+ * Coverage by tag, and by tag group for specs declaring `x-tagGroups`
+ */
+export interface ITagCoverageReport {
+  tags: Record<string, ITagCoverage>; // Untagged operations are grouped under `(untagged)`
+  tagGroups?: Record<string, ITagCoverage & { tags: string[] }>;
+}
+
 /**
  * Server error statistics
  */
@@ -140,6 +476,118 @@ export interface IServerErrorStats {
   }>;
 }
 
+/**
+ * Client error (4xx) statistics, split into responses the tests expected and accidental ones
+ */
+export interface IClientErrorStats {
+  totalClientErrors: number;
+  intentionalClientErrors: number;
+  accidentalClientErrors: number;
+  statusCodeCounts: Record<string, number>;
+  errorsByEndpoint: Array<{
+    endpoint: string;
+    count: number;
+    intentional: number;
+    accidental: number;
+    lastError?: string;
+  }>;
+}
+
+/**
+ * Responses of an endpoint other than 2xx, with client and server errors counted separately
+ */
+export interface IEndpointErrorStats {
+  clientErrors: number;
+  intentionalClientErrors: number;
+  accidentalClientErrors: number;
+  serverErrors: number;
+  networkFailures: number; // Requests that never got a response
+  inFlightRequests: number; // Requests still waiting for a response when the run finished
+  statusCodes: Record<string, number>; // Every status outside 2xx -> number of responses
+}
+
+/**
+ * Call statistics of a tested endpoint
+ */
+export interface IEndpointCallStats extends IEndpointHitRecord {
+  serverErrors: number; // 5xx responses
+  errorRate: number; // Server errors / calls, between 0 and 1
+}
+
+/**
+ * Distribution of sampled values (latencies in ms or sizes in bytes)
+ */
+export interface IValueDistribution {
+  samples: number;
+  min: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Latency and payload sizes of an operation
+ */
+export interface IEndpointPerformance {
+  latency?: IValueDistribution;
+  requestSize?: IValueDistribution;
+  responseSize?: IValueDistribution;
+}
+
+/**
+ * Latency and payload size profile of the tested operations
+ */
+export interface IPerformanceReport {
+  endpoints: Record<string, IEndpointPerformance>;
+  slowEndpointThreshold?: number;
+  slowEndpoints?: Array<{ endpoint: string; p95: number; max: number }>; // Slowest first
+}
+
+/**
+ * Tests that called each endpoint and endpoints called by each test
+ */
+export interface ITraceabilityMatrix {
+  tests: Record<string, ITestReference & { endpoints: Record<string, number> }>; // Endpoint -> calls
+  endpoints: Record<string, string[]>; // Endpoint -> ids of the tests calling it
+}
+
+/**
+ * Endpoints covered by one worker
+ */
+export interface IWorkerCoverage {
+  capability: string;
+  testedEndpoints: number;
+  coveragePercentage: number;
+}
+
+/**
+ * Endpoints covered by all workers sharing a capability
+ */
+export interface ICapabilityCoverage {
+  workers: string[];
+  testedEndpoints: number;
+  untestedEndpoints: number;
+  coveragePercentage: number;
+  untested: string[]; // Spec endpoints no worker of the capability called
+}
+
+/**
+ * Requests that never got a response: network-level failures and hung requests
+ */
+export interface INetworkFailureReport {
+  summary: {
+    totalFailures: number;
+    inFlightRequests: number;
+    codeCounts: Record<string, number>;
+  };
+  endpoints: Record<
+    string,
+    { failures: Record<string, number>; inFlight: number; lastError?: string }
+  >;
+}
+
 /**
  * Coverage report format
  */
@@ -151,12 +599,186 @@ export interface ICoverageReport {
     coveragePercentage: number;
   };
   methodCoverage: Record<string, IMethodCoverage>;
+  tagCoverage?: ITagCoverageReport;
+  operationIdCoverage?: Record<string, { endpoint: string; tested: boolean }>; // operationId -> endpoint
+  operations?: Record<string, IOperationMetadata & { tested: boolean }>; // Endpoint -> metadata
   serverErrorStats: IServerErrorStats;
   endpoints: {
     tested: string[];
     untested: string[];
   };
+  excludedEndpoints?: Record<string, { reason: string; tested: boolean }>; // Not in the totals
+  baselineDiff?: IBaselineDiff;
   extraEndpoints?: string[];
   serverErrors: Record<string, IServerErrorRecord>;
+  clientErrorStats?: IClientErrorStats;
+  errorStatsByEndpoint?: Record<string, IEndpointErrorStats>;
+  networkFailures?: INetworkFailureReport;
+  endpointStats?: Record<string, IEndpointCallStats>; // Tested endpoint -> call statistics
+  performance?: IPerformanceReport;
+  traceability?: ITraceabilityMatrix;
+  workerCoverage?: Record<string, IWorkerCoverage>; // Worker id -> coverage
+  capabilityCoverage?: Record<string, ICapabilityCoverage>; // Capability -> coverage
+  serverHits?: Record<string, string[]>; // Spec server URL -> endpoints hit on it
+  statusCodeCoverage?: IStatusCodeCoverage;
+  queryParameterCoverage?: IParameterCoverage;
+  headerParameterCoverage?: IParameterCoverage;
+  cookieParameterCoverage?: IParameterCoverage;
+  requestBodyCoverage?: IRequestBodyCoverage;
+  contractViolations?: IContractViolationReport;
+  requestViolations?: IRequestViolationReport;
   timestamp: string;
+  specs?: Record<string, TSpecCoverageReport>; // Coverage of each additional spec
+  rollup?: ICoverageRollup; // Totals across the default and the additional specs
+}
+
+/**
+ * Documented and observed response statuses of an operation
+ */
+export interface IOperationStatusCoverage {
+  documented: string[]; // Keys of the operation's responses (e.g. 200, 4XX, default)
+  observed: Record<string, number>; // Response status -> number of responses
+  missing: string[]; // Documented but never observed
+  undocumented: string[]; // Observed but not documented
+}
+
+/**
+ * Response status-code coverage of all operations
+ */
+export interface IStatusCodeCoverage {
+  summary: {
+    documentedCodes: number;
+    observedCodes: number; // Documented codes observed at least once
+    undocumentedCodes: number;
+    coveragePercentage: number;
+  };
+  operations: Record<string, IOperationStatusCoverage>;
+}
+
+/**
+ * Documented and sent parameters of an operation
+ */
+export interface IOperationParameterCoverage {
+  documented: string[];
+  exercised: string[]; // Documented and sent at least once
+  missing: string[]; // Documented but never sent
+  missingRequired: string[]; // Required but never sent
+  undocumented: string[]; // Sent but not documented
+  values?: Record<string, string[]>; // Values sent, only for parameters listed in recordParameterValues
+}
+
+/**
+ * Parameter coverage of all operations for one parameter location (query, header, ...)
+ */
+export interface IParameterCoverage {
+  summary: {
+    documentedParams: number;
+    exercisedParams: number;
+    undocumentedParams: number;
+    coveragePercentage: number;
+  };
+  operations: Record<string, IOperationParameterCoverage>;
+}
+
+/**
+ * Request body property coverage of a single operation
+ */
+export interface IOperationBodyCoverage {
+  documented: string[]; // Property paths documented by the requestBody schema
+  exercised: string[]; // Documented and sent
+  missing: string[]; // Documented but never sent
+  missingRequired: string[]; // Required but never sent, while their parent object was
+  undocumented: string[]; // Sent but not documented
+}
+
+/**
+ * Request body property coverage of all operations with a JSON requestBody
+ */
+export interface IRequestBodyCoverage {
+  summary: {
+    documentedProperties: number;
+    exercisedProperties: number;
+    undocumentedProperties: number;
+    coveragePercentage: number;
+  };
+  operations: Record<string, IOperationBodyCoverage>;
+}
+
+/**
+ * Response schema violations of all operations, when validateResponses is enabled
+ */
+export interface IContractViolationReport {
+  summary: {
+    validatedResponses: number;
+    invalidResponses: number;
+    operationsWithViolations: number;
+  };
+  operations: Record<string, IContractViolation[]>;
+}
+
+/**
+ * Request violations grouped by the test that sent them, when validateRequests is enabled
+ */
+export interface IRequestViolationReport {
+  summary: {
+    validatedRequests: number;
+    invalidRequests: number;
+    testsWithViolations: number;
+  };
+  tests: Record<string, Array<Omit<IRequestViolation, 'test'> & { endpoint: string }>>;
+}
+
+/**
+ * Coverage of a single spec
+ */
+export type TSpecCoverageReport = Omit<ICoverageReport, 'timestamp' | 'specs' | 'rollup'>;
+
+/**
+ * Changes since the baseline report
+ */
+export interface IBaselineDiff {
+  baselineTimestamp?: string;
+  coverageChange: number; // Percentage points gained (or lost when negative)
+  newlyCovered: string[];
+  lostCoverage: string[]; // Tested in the baseline, untested now
+  newServerErrorEndpoints: string[]; // Endpoints answering 5xx that did not in the baseline
+  newUndocumentedEndpoints: string[]; // Called endpoints missing from the spec, not called in the baseline
+}
+
+/**
+ * Totals across all specs of a run
+ */
+export interface ICoverageRollup {
+  summary: ICoverageReport['summary'];
+  methodCoverage: Record<string, IMethodCoverage>;
+  serverErrorStats: IServerErrorStats;
+}
+
+/**
+ * Data collected for an additional spec
+ */
+export interface ISpecReportInput {
+  name: string;
+  apiSpec?: IOpenAPIDocument | null;
+  specEndpoints: Set<string>;
+  hitEndpoints: string[];
+  serverErrors: Record<string, IServerErrorRecord>;
+  endpointUsage?: Record<string, IEndpointUsageRecord>;
+  hitCounts?: Record<string, IEndpointHitRecord>;
+  workers?: IWorkerHits[];
+}
+
+/**
+ * Additional data collected during the run that feeds optional report sections
+ */
+export interface IReportInputs {
+  apiSpec?: IOpenAPIDocument | null;
+  endpointUsage?: Record<string, IEndpointUsageRecord>;
+  hitCounts?: Record<string, IEndpointHitRecord>;
+  workers?: IWorkerHits[];
+  slowEndpointThreshold?: number;
+  excludeOperations?: IOperationExclusions;
+  baselinePath?: string;
+  htmlOutputPath?: string;
+  specs?: ISpecReportInput[];
 }
@@ -0,0 +1,66 @@
+import { IWorkerInfo } from '../types/index.js';
+
+/**
+ * Describe a worker by the capability it runs with
+ * @param labels Capability names whose values tell capabilities apart, dot paths reach into
+ *   vendor options (e.g. `bstack:options.deviceName`)
+ */
+export function describeWorker(
+  workerId: string,
+  capabilities: WebdriverIO.Capabilities | undefined,
+  labels: string[] = []
+): IWorkerInfo {
+  const caps = (capabilities || {}) as Record<string, unknown>;
+  const browserName = getStringValue(caps, 'browserName');
+  const browserVersion = getStringValue(caps, 'browserVersion') || getStringValue(caps, 'version');
+  const platformName = getStringValue(caps, 'platformName') || getStringValue(caps, 'platform');
+
+  const labelValues: Record<string, string> = {};
+  for (const label of labels) {
+    const value = getStringValue(caps, label);
+    if (value !== undefined) {
+      labelValues[label] = value;
+    }
+  }
+
+  let capability = [browserName, browserVersion].filter(Boolean).join(' ') || 'unknown';
+  if (platformName) {
+    capability += ` on ${platformName}`;
+  }
+  if (Object.keys(labelValues).length > 0) {
+    const describedLabels = Object.entries(labelValues).map(
+      ([label, value]) => `${label.split('.').pop()}=${value}`
+    );
+    capability += ` (${describedLabels.join(', ')})`;
+  }
+
+  return {
+    workerId,
+    capability,
+    ...(browserName ? { browserName } : {}),
+    ...(browserVersion ? { browserVersion } : {}),
+    ...(platformName ? { platformName } : {}),
+    ...(Object.keys(labelValues).length > 0 ? { labels: labelValues } : {}),
+  };
+}
+
+/**
+ * Read a string, number or boolean capability, following dots into nested objects
+ */
+function getStringValue(capabilities: Record<string, unknown>, name: string): string | undefined {
+  let value: unknown = capabilities[name];
+
+  if (value === undefined && name.includes('.')) {
+    value = capabilities;
+    for (const segment of name.split('.')) {
+      value =
+        value && typeof value === 'object'
+          ? (value as Record<string, unknown>)[segment]
+          : undefined;
+    }
+  }
+
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? String(value)
+    : undefined;
+}
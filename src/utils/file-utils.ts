@@ -11,7 +11,13 @@ import {
 } from 'node:fs';
 import { join, resolve, dirname as _dirname } from 'node:path';
 import logger from '@wdio/logger';
-import { IServerErrorRecord } from '../types/index.js';
+import {
+  IEndpointHitRecord,
+  IEndpointUsageRecord,
+  IHitEndpointsFile,
+  IServerErrorRecord,
+  IWorkerInfo,
+} from '../types/index.js';
 
 // Create a logger instance
 const log = logger('openapi:file-utils');
@@ -22,6 +28,13 @@ const log = logger('openapi:file-utils');
 export const TEMP_DIR = join(process.cwd(), '.temp');
 export const COVERAGE_DIR = join(TEMP_DIR, 'openapi');
 
+/**
+ * Get the directory holding the worker files of an additional spec
+ */
+export function getSpecCoverageDir(specName: string): string {
+  return join(COVERAGE_DIR, 'specs', specName.replace(/[^\w.-]/g, '_'));
+}
+
 /**
  * Get the current directory path for ES modules
  */
@@ -32,6 +45,7 @@ export function getCurrentDir(): string {
 
 /**
  * Ensure temporary directories exist for storing coverage data
+ * Removes the data of a previous run, so it must only run before the workers start
  */
 export function ensureTempDirs(): void {
   // Create base temp directory if it doesn't exist
@@ -65,12 +79,14 @@ export function ensureTempDirs(): void {
 }
 
 /**
- * Save an array of hit endpoints to a file
+ * Save the hit endpoints, their call counts and the capability of the worker to a file
  */
 export function saveHitEndpoints(
   filePath: string,
   endpoints: Set<string>,
-  _workerId: string
+  _workerId: string,
+  hitCounts: Record<string, IEndpointHitRecord> = {},
+  worker?: IWorkerInfo
 ): void {
   try {
     // Ensure directory exists
@@ -141,8 +157,15 @@ export function saveHitEndpoints(
     // Convert the set to an array
     const endpointsArray = [...dedupedEndpoints];
 
-    // Write the deduplicated endpoints to the file
-    writeFileSync(filePath, JSON.stringify(endpointsArray, null, 2));
+    // Write the deduplicated endpoints to the file, the counts keep the endpoints they were recorded for
+    writeFileSync(
+      filePath,
+      JSON.stringify(
+        { endpoints: endpointsArray, hits: hitCounts, worker } as IHitEndpointsFile,
+        null,
+        2
+      )
+    );
   } catch (err) {
     log.error(`Failed to write hit endpoints to file: ${filePath}`, err);
   }
@@ -252,6 +275,30 @@ export function saveErrors(
   }
 }
 
+/**
+ * Save per-endpoint usage details to a file
+ */
+export function saveEndpointUsage(
+  filePath: string,
+  usage: Record<string, IEndpointUsageRecord>,
+  _workerId: string
+): void {
+  try {
+    // Ensure directory exists
+    const directory = path.dirname(filePath);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+      log.info(`Created directory for endpoint usage: ${directory}`);
+    }
+
+    // Not pretty-printed, the usage holds up to thousands of samples per endpoint
+    writeFileSync(filePath, JSON.stringify(usage));
+    log.debug(`Worker ${_workerId} saved endpoint usage to file`);
+  } catch (err) {
+    log.error(`Failed to write endpoint usage to file: ${filePath}`, err);
+  }
+}
+
 /**
  * List of possible OpenAPI specification file paths
  */
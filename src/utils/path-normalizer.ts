@@ -1,5 +1,6 @@
 import logger from '@wdio/logger';
 import { IOpenAPIDocument, IPathPattern } from '../types/index.js';
+import { stripServerBasePath } from './server-resolver.js';
 
 // Create a logger instance
 const log = logger('openapi:path-normalizer');
@@ -7,6 +8,7 @@ const log = logger('openapi:path-normalizer');
 /**
  * Normalize paths with parameters
  * Converts dynamic API paths like /api/users/123 to OpenAPI template paths like /api/users/{id}
+ * The base path of the spec's `servers` (or Swagger `basePath`) is removed before matching
  *
  * @param path - The original path to normalize
  * @param apiSpec - The OpenAPI specification document
@@ -23,8 +25,11 @@ export function normalizePath(
     return '';
   }
 
-  // Ensure consistent path format (always start with /)
-  const normalizedInputPath = path.startsWith('/') ? path : `/${path}`;
+  // Ensure consistent path format (always start with /) and drop the servers' base path
+  const normalizedInputPath = stripServerBasePath(
+    path.startsWith('/') ? path : `/${path}`,
+    apiSpec
+  );
 
   // 1. Check for exact match in OpenAPI spec first (faster than regex matching)
   if (apiSpec?.paths && apiSpec.paths[normalizedInputPath]) {
@@ -0,0 +1,175 @@
+import logger from '@wdio/logger';
+import { IOpenAPIDocument, TRequestFilter, TWebDriverConnection } from '../types/index.js';
+import { getSpecServers } from './server-resolver.js';
+
+// Create a logger instance
+const log = logger('openapi:request-filter');
+
+// Glob patterns are compiled once
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Decide whether a request should be tracked
+ * Exclude rules win over include rules. Without includeHosts, only the hosts declared in
+ * the spec's servers are tracked (unless limitToSpecHosts is false or no host is declared)
+ */
+export function shouldTrackRequest(
+  filter: TRequestFilter | undefined,
+  apiSpec: IOpenAPIDocument | null,
+  method: string,
+  fullUrl: URL
+): boolean {
+  const requestMethod = method.toUpperCase();
+  const rules = filter || {};
+
+  if (rules.excludeMethods && matchesMethod(rules.excludeMethods, requestMethod)) {
+    return false;
+  }
+
+  if (rules.includeMethods && !matchesMethod(rules.includeMethods, requestMethod)) {
+    return false;
+  }
+
+  if (rules.excludeHosts && matchesHost(rules.excludeHosts, fullUrl)) {
+    return false;
+  }
+
+  const includeHosts = rules.includeHosts || getDefaultHosts(rules, apiSpec);
+  if (includeHosts.length > 0 && !matchesHost(includeHosts, fullUrl)) {
+    return false;
+  }
+
+  if (rules.excludePaths && matchesPath(rules.excludePaths, fullUrl.pathname)) {
+    return false;
+  }
+
+  if (rules.includePaths && !matchesPath(rules.includePaths, fullUrl.pathname)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get the URL of the WebDriver server from the connection options of the session
+ * Returns undefined when the hostname is not known yet
+ */
+export function getWebDriverEndpoint(
+  connection: TWebDriverConnection | undefined
+): URL | undefined {
+  if (!connection?.hostname) {
+    return undefined;
+  }
+
+  try {
+    const endpoint = new URL(`${connection.protocol || 'http'}://${connection.hostname}`);
+    if (connection.port) {
+      endpoint.port = String(connection.port);
+    }
+    endpoint.pathname = connection.path || '/';
+    return endpoint;
+  } catch (_e) {
+    log.warn(`Invalid WebDriver hostname: ${connection.hostname}`);
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a request is a WebDriver protocol command sent to the server of the session
+ * WebdriverIO v9 sends them through the global fetch
+ */
+export function isWebDriverRequest(endpoint: URL | undefined, fullUrl: URL): boolean {
+  if (!endpoint || endpoint.origin !== fullUrl.origin) {
+    return false;
+  }
+
+  const basePath = endpoint.pathname.replace(/\/+$/, '');
+  return fullUrl.pathname === basePath || fullUrl.pathname.startsWith(`${basePath}/`);
+}
+
+/**
+ * Get the hosts declared in the spec's servers (relative servers declare none)
+ */
+function getDefaultHosts(rules: TRequestFilter, apiSpec: IOpenAPIDocument | null): string[] {
+  if (rules.limitToSpecHosts === false) {
+    return [];
+  }
+
+  const hosts = new Set<string>();
+  for (const { host } of getSpecServers(apiSpec)) {
+    if (host) {
+      hosts.add(host);
+    }
+  }
+
+  return [...hosts];
+}
+
+/**
+ * Check a method against a list of methods (case-insensitive)
+ */
+function matchesMethod(methods: string[], method: string): boolean {
+  return methods.some((candidate) => candidate.toUpperCase() === method);
+}
+
+/**
+ * Check a URL against host patterns such as api.example.com, localhost:3000 or *.example.com
+ */
+export function matchesHost(hosts: string[], fullUrl: URL): boolean {
+  return hosts.some((pattern) => {
+    let hostPattern = pattern.toLowerCase();
+
+    // Accept full URLs as well, only their host is compared
+    if (hostPattern.includes('://')) {
+      try {
+        hostPattern = new URL(hostPattern).host;
+      } catch (_e) {
+        log.warn(`Invalid host pattern: ${pattern}`);
+        return false;
+      }
+    }
+
+    const regex = globToRegExp(hostPattern);
+    return regex.test(fullUrl.host) || regex.test(fullUrl.hostname);
+  });
+}
+
+/**
+ * Check a path against glob patterns (e.g. /health, /admin/**) or regular expressions
+ */
+export function matchesPath(patterns: Array<string | RegExp>, pathname: string): boolean {
+  return patterns.some((pattern) =>
+    pattern instanceof RegExp ? pattern.test(pathname) : globToRegExp(pattern).test(pathname)
+  );
+}
+
+/**
+ * Convert a glob into a regular expression
+ * `*` matches within a path segment, `**` matches across segments and `?` a single character
+ */
+function globToRegExp(glob: string): RegExp {
+  const cached = globCache.get(glob);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`, 'i');
+  globCache.set(glob, regex);
+  return regex;
+}
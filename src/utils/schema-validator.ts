@@ -0,0 +1,357 @@
+import { IOpenAPIDocument, ISchemaObject } from '../types/index.js';
+import { resolveSchemaRef } from './schema-walker.js';
+
+// Nested values are only validated this deep
+const MAX_DEPTH = 20;
+
+// Validation stops after this many violations
+const MAX_VIOLATIONS = 20;
+
+// Formats checked by the validator, other formats are accepted as they are
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: /^[a-z][a-z0-9+.-]*:\S*$/i,
+  ipv4: /^(\d{1,3}\.){3}\d{1,3}$/,
+};
+
+/**
+ * Mismatch between a value and its schema
+ */
+export interface ISchemaViolation {
+  path: string; // Path to the offending value (`$` is the root, e.g. `$.items[0].price`)
+  expected: string; // What the schema expects (e.g. `number`, `one of [a, b]`, `required`)
+  actual: string; // What was found (e.g. `string`, `"c"`, `missing`)
+}
+
+/**
+ * How a value is validated
+ */
+export interface ISchemaValidationOptions {
+  direction?: 'request' | 'response'; // readOnly properties are not required in requests, writeOnly ones in responses
+  redactValues?: boolean; // Report `redacted` instead of the offending value, e.g. for secret headers
+}
+
+/**
+ * Validate a value against an OpenAPI schema
+ * Supports local references, allOf/oneOf/anyOf, nullable (3.0) and type arrays (3.1),
+ * enum, required, readOnly/writeOnly, additionalProperties: false, items, pattern, format
+ * and numeric/length limits
+ */
+export function validateSchema(
+  apiSpec: IOpenAPIDocument | null,
+  schema: ISchemaObject | undefined,
+  value: unknown,
+  path = '$',
+  options: ISchemaValidationOptions = {}
+): ISchemaViolation[] {
+  const violations: ISchemaViolation[] = [];
+  validateValue(apiSpec, schema, value, path, violations, 0, options);
+  return violations.slice(0, MAX_VIOLATIONS);
+}
+
+/**
+ * Get the JSON type of a value, distinguishing integers, arrays and null
+ */
+export function getValueType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer';
+  }
+
+  return typeof value;
+}
+
+/**
+ * Validate a value and collect its violations
+ */
+function validateValue(
+  apiSpec: IOpenAPIDocument | null,
+  schema: ISchemaObject | undefined,
+  value: unknown,
+  path: string,
+  violations: ISchemaViolation[],
+  depth: number,
+  options: ISchemaValidationOptions
+): void {
+  const resolved = resolveSchemaRef(apiSpec, schema);
+  if (!resolved || depth > MAX_DEPTH || violations.length >= MAX_VIOLATIONS) {
+    return;
+  }
+
+  if (Array.isArray(resolved.allOf)) {
+    for (const part of resolved.allOf as ISchemaObject[]) {
+      validateValue(apiSpec, part, value, path, violations, depth + 1, options);
+    }
+  }
+
+  for (const key of ['oneOf', 'anyOf']) {
+    const alternatives = resolved[key];
+    if (!Array.isArray(alternatives) || alternatives.length === 0) {
+      continue;
+    }
+
+    // anyOf needs at least one matching alternative, oneOf exactly one
+    const matches = (alternatives as ISchemaObject[]).filter(
+      (alternative) => validateSchema(apiSpec, alternative, value, path, options).length === 0
+    ).length;
+    if (matches === 0) {
+      violations.push({ path, expected: `${key} alternative`, actual: getValueType(value) });
+    } else if (key === 'oneOf' && matches > 1) {
+      violations.push({
+        path,
+        expected: 'exactly one oneOf alternative',
+        actual: `${matches} matching alternatives`,
+      });
+    }
+  }
+
+  const types = getSchemaTypes(resolved);
+  const actualType = getValueType(value);
+
+  if (value === null) {
+    if (types.length > 0 && !types.includes('null')) {
+      violations.push({ path, expected: types.join(' | '), actual: 'null' });
+    }
+    return;
+  }
+
+  if (
+    types.length > 0 &&
+    !types.includes(actualType) &&
+    !(actualType === 'integer' && types.includes('number'))
+  ) {
+    violations.push({ path, expected: types.join(' | '), actual: actualType });
+    return;
+  }
+
+  if (Array.isArray(resolved.enum) && !resolved.enum.some((option) => option === value)) {
+    violations.push({
+      path,
+      expected: `one of [${resolved.enum.join(', ')}]`,
+      actual: describeValue(value, options),
+    });
+  }
+
+  if (typeof value === 'string') {
+    validateString(resolved, value, path, violations, options);
+  } else if (typeof value === 'number') {
+    validateNumber(resolved, value, path, violations, options);
+  } else if (Array.isArray(value)) {
+    validateArray(resolved, value.length, path, violations);
+    value.forEach((item, index) =>
+      validateValue(
+        apiSpec,
+        resolved.items as ISchemaObject,
+        item,
+        `${path}[${index}]`,
+        violations,
+        depth + 1,
+        options
+      )
+    );
+  } else if (typeof value === 'object') {
+    validateObject(
+      apiSpec,
+      resolved,
+      value as Record<string, unknown>,
+      path,
+      violations,
+      depth,
+      options
+    );
+  }
+}
+
+/**
+ * Get the types a schema allows, including null for nullable schemas
+ */
+function getSchemaTypes(schema: ISchemaObject): string[] {
+  const types = Array.isArray(schema.type)
+    ? (schema.type as string[])
+    : schema.type
+      ? [schema.type]
+      : [];
+
+  return schema.nullable === true && types.length > 0 ? [...types, 'null'] : types;
+}
+
+/**
+ * Validate the pattern, format and length of a string
+ */
+function validateString(
+  schema: ISchemaObject,
+  value: string,
+  path: string,
+  violations: ISchemaViolation[],
+  options: ISchemaValidationOptions
+): void {
+  if (schema.pattern) {
+    try {
+      if (!new RegExp(schema.pattern).test(value)) {
+        violations.push({
+          path,
+          expected: `pattern ${schema.pattern}`,
+          actual: describeValue(value, options),
+        });
+      }
+    } catch (_e) {
+      // Patterns JavaScript cannot compile are not checked
+    }
+  }
+
+  const formatPattern = schema.format ? FORMAT_PATTERNS[schema.format] : undefined;
+  if (formatPattern && !formatPattern.test(value)) {
+    violations.push({
+      path,
+      expected: `format ${schema.format}`,
+      actual: describeValue(value, options),
+    });
+  }
+
+  if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+    violations.push({
+      path,
+      expected: `minLength ${schema.minLength}`,
+      actual: `length ${value.length}`,
+    });
+  }
+
+  if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+    violations.push({
+      path,
+      expected: `maxLength ${schema.maxLength}`,
+      actual: `length ${value.length}`,
+    });
+  }
+}
+
+/**
+ * Validate the limits of a number
+ */
+function validateNumber(
+  schema: ISchemaObject,
+  value: number,
+  path: string,
+  violations: ISchemaViolation[],
+  options: ISchemaValidationOptions
+): void {
+  if (typeof schema.minimum === 'number' && value < schema.minimum) {
+    violations.push({
+      path,
+      expected: `minimum ${schema.minimum}`,
+      actual: describeValue(value, options),
+    });
+  }
+
+  if (typeof schema.maximum === 'number' && value > schema.maximum) {
+    violations.push({
+      path,
+      expected: `maximum ${schema.maximum}`,
+      actual: describeValue(value, options),
+    });
+  }
+}
+
+/**
+ * Validate the length of an array
+ */
+function validateArray(
+  schema: ISchemaObject,
+  length: number,
+  path: string,
+  violations: ISchemaViolation[]
+): void {
+  if (typeof schema.minItems === 'number' && length < schema.minItems) {
+    violations.push({ path, expected: `minItems ${schema.minItems}`, actual: `${length} items` });
+  }
+
+  if (typeof schema.maxItems === 'number' && length > schema.maxItems) {
+    violations.push({ path, expected: `maxItems ${schema.maxItems}`, actual: `${length} items` });
+  }
+}
+
+/**
+ * Validate the required, documented and additional properties of an object
+ */
+function validateObject(
+  apiSpec: IOpenAPIDocument | null,
+  schema: ISchemaObject,
+  value: Record<string, unknown>,
+  path: string,
+  violations: ISchemaViolation[],
+  depth: number,
+  options: ISchemaValidationOptions
+): void {
+  const properties = (schema.properties || {}) as Record<string, ISchemaObject>;
+
+  for (const name of Array.isArray(schema.required) ? (schema.required as string[]) : []) {
+    if (value[name] === undefined && !isOmittedProperty(apiSpec, properties[name], options)) {
+      violations.push({ path: `${path}.${name}`, expected: 'required', actual: 'missing' });
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    const propertyPath = `${path}.${name}`;
+
+    if (properties[name]) {
+      validateValue(
+        apiSpec,
+        properties[name],
+        propertyValue,
+        propertyPath,
+        violations,
+        depth + 1,
+        options
+      );
+    } else if (schema.additionalProperties === false) {
+      violations.push({
+        path: propertyPath,
+        expected: 'no additional properties',
+        actual: 'present',
+      });
+    } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      validateValue(
+        apiSpec,
+        schema.additionalProperties as ISchemaObject,
+        propertyValue,
+        propertyPath,
+        violations,
+        depth + 1,
+        options
+      );
+    }
+  }
+}
+
+/**
+ * Whether a required property may be left out in this direction: readOnly properties
+ * are only sent by the server and writeOnly ones (e.g. passwords) only by the client
+ */
+function isOmittedProperty(
+  apiSpec: IOpenAPIDocument | null,
+  schema: ISchemaObject | undefined,
+  { direction }: ISchemaValidationOptions
+): boolean {
+  const resolved = resolveSchemaRef(apiSpec, schema);
+  return (
+    (direction === 'request' && resolved?.readOnly === true) ||
+    (direction === 'response' && resolved?.writeOnly === true)
+  );
+}
+
+/**
+ * Describe an offending value, unless values must not be reported
+ */
+function describeValue(value: unknown, { redactValues }: ISchemaValidationOptions): string {
+  return redactValues ? 'redacted' : JSON.stringify(value);
+}
@@ -0,0 +1,156 @@
+import { IOpenAPIDocument, ISchemaObject } from '../types/index.js';
+
+// Nested schemas and bodies are only walked this deep
+const MAX_DEPTH = 10;
+
+// Upper bound for the property paths collected from one body
+const MAX_BODY_PATHS = 500;
+
+/**
+ * Property documented in a schema, addressed by its path (e.g. `address.city`, `items[].sku`)
+ */
+export interface ISchemaProperty {
+  path: string;
+  required: boolean; // Required by its parent object
+}
+
+/**
+ * Properties of a schema, and the paths of free-form objects whose keys are not documented
+ */
+export interface ISchemaProperties {
+  properties: ISchemaProperty[];
+  openPaths: string[];
+}
+
+/**
+ * Resolve a local schema reference (#/components/schemas/... or #/definitions/...)
+ * Returns the schema itself when it is not a reference, undefined when the target is missing
+ */
+export function resolveSchemaRef(
+  apiSpec: IOpenAPIDocument | null,
+  schema: ISchemaObject | undefined
+): ISchemaObject | undefined {
+  let resolved = schema;
+  const seen = new Set<string>();
+
+  while (resolved && typeof resolved.$ref === 'string') {
+    const ref = resolved.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) {
+      return undefined;
+    }
+    seen.add(ref);
+
+    let target: unknown = apiSpec;
+    for (const segment of ref.slice(2).split('/')) {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      target =
+        target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+    }
+    resolved = target as ISchemaObject | undefined;
+  }
+
+  return resolved;
+}
+
+/**
+ * Collect the property paths documented by a schema
+ * allOf schemas are merged, the properties of every oneOf/anyOf alternative are included
+ * and array items are addressed with `[]`
+ */
+export function collectSchemaProperties(
+  apiSpec: IOpenAPIDocument | null,
+  schema: ISchemaObject | undefined
+): ISchemaProperties {
+  const result: ISchemaProperties = { properties: [], openPaths: [] };
+  const seenPaths = new Set<string>();
+
+  // Recursive schemas (e.g. a tree node referencing itself) are walked once per branch
+  const walk = (
+    current: ISchemaObject | undefined,
+    prefix: string,
+    depth: number,
+    refs: string[] = []
+  ): void => {
+    const ref = typeof current?.$ref === 'string' ? current.$ref : undefined;
+    const resolved = resolveSchemaRef(apiSpec, current);
+    if (!resolved || depth > MAX_DEPTH || (ref && refs.includes(ref))) {
+      return;
+    }
+
+    const branchRefs = ref ? [...refs, ref] : refs;
+
+    for (const key of ['allOf', 'oneOf', 'anyOf']) {
+      const alternatives = resolved[key];
+      if (Array.isArray(alternatives)) {
+        alternatives.forEach((alternative) =>
+          walk(alternative as ISchemaObject, prefix, depth + 1, branchRefs)
+        );
+      }
+    }
+
+    if (resolved.items && typeof resolved.items === 'object') {
+      walk(resolved.items as ISchemaObject, `${prefix}[]`, depth + 1, branchRefs);
+    }
+
+    const properties = resolved.properties as Record<string, ISchemaObject> | undefined;
+    const required = Array.isArray(resolved.required) ? (resolved.required as string[]) : [];
+
+    if (properties && typeof properties === 'object') {
+      for (const [name, propertySchema] of Object.entries(properties)) {
+        const path = prefix ? `${prefix}.${name}` : name;
+        if (!seenPaths.has(path)) {
+          seenPaths.add(path);
+          result.properties.push({ path, required: required.includes(name) });
+        }
+        walk(propertySchema, path, depth + 1, branchRefs);
+      }
+    }
+
+    // Maps and free-form objects accept any key
+    if (
+      resolved.additionalProperties ||
+      (resolved.type === 'object' &&
+        !properties &&
+        !resolved.allOf &&
+        !resolved.oneOf &&
+        !resolved.anyOf)
+    ) {
+      result.openPaths.push(prefix);
+    }
+  };
+
+  walk(schema, '', 0);
+  return result;
+}
+
+/**
+ * Collect the property paths present in a JSON body, using the same notation as
+ * collectSchemaProperties (`address.city`, `items[].sku`)
+ */
+export function collectBodyPaths(body: unknown): string[] {
+  const paths = new Set<string>();
+
+  const walk = (value: unknown, prefix: string, depth: number): void => {
+    if (depth > MAX_DEPTH || paths.size >= MAX_BODY_PATHS || !value || typeof value !== 'object') {
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => walk(item, `${prefix}[]`, depth + 1));
+      return;
+    }
+
+    for (const [name, propertyValue] of Object.entries(value as Record<string, unknown>)) {
+      if (paths.size >= MAX_BODY_PATHS) {
+        return;
+      }
+
+      const path = prefix ? `${prefix}.${name}` : name;
+      paths.add(path);
+      walk(propertyValue, path, depth + 1);
+    }
+  };
+
+  walk(body, '', 0);
+  return [...paths];
+}
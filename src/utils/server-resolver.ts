@@ -0,0 +1,175 @@
+import logger from '@wdio/logger';
+import { IApiServer, IOpenAPIDocument, IServerObject } from '../types/index.js';
+
+// Create a logger instance
+const log = logger('openapi:server-resolver');
+
+// Upper bound for the URLs generated from server variable enums
+const MAX_SERVER_VARIANTS = 50;
+
+// Servers are derived once per loaded spec
+const serverCache = new WeakMap<IOpenAPIDocument, IApiServer[]>();
+
+/**
+ * Get the servers an API is served from
+ * Reads OpenAPI 3 `servers` (expanding server variables) and Swagger 2 `host`/`basePath`
+ */
+export function getSpecServers(apiSpec: IOpenAPIDocument | null): IApiServer[] {
+  if (!apiSpec) {
+    return [];
+  }
+
+  const cached = serverCache.get(apiSpec);
+  if (cached) {
+    return cached;
+  }
+
+  const servers: IApiServer[] = [];
+
+  if (Array.isArray(apiSpec.servers)) {
+    // OpenAPI 3.x
+    for (const server of apiSpec.servers) {
+      if (!server || typeof server.url !== 'string') {
+        continue;
+      }
+
+      for (const url of expandServerUrl(server)) {
+        servers.push(parseServerUrl(url));
+      }
+    }
+  } else if (apiSpec.swagger) {
+    // Swagger 2.0
+    const basePath = apiSpec.basePath || '';
+    const host = apiSpec.host || '';
+
+    if (host) {
+      const schemes = apiSpec.schemes && apiSpec.schemes.length > 0 ? apiSpec.schemes : ['https'];
+      for (const scheme of schemes) {
+        servers.push(parseServerUrl(`${scheme}://${host}${basePath}`));
+      }
+    } else if (basePath) {
+      servers.push(parseServerUrl(basePath));
+    }
+  }
+
+  serverCache.set(apiSpec, servers);
+  return servers;
+}
+
+/**
+ * Find the spec server a request URL was sent to
+ * Servers on the same host win over relative servers, then the longest base path wins
+ */
+export function matchSpecServer(apiSpec: IOpenAPIDocument | null, fullUrl: URL): IApiServer | null {
+  let bestMatch: IApiServer | null = null;
+
+  for (const server of getSpecServers(apiSpec)) {
+    if (server.host && server.host !== fullUrl.host) {
+      continue;
+    }
+
+    if (!hasBasePath(fullUrl.pathname, server.basePath)) {
+      continue;
+    }
+
+    if (
+      !bestMatch ||
+      (server.host && !bestMatch.host) ||
+      (!!server.host === !!bestMatch.host && server.basePath.length > bestMatch.basePath.length)
+    ) {
+      bestMatch = server;
+    }
+  }
+
+  return bestMatch;
+}
+
+/**
+ * Remove the base path of the spec's servers from a request path
+ * e.g. /api/v2/users/1 becomes /users/1 for a server at https://host/api/v2
+ */
+export function stripServerBasePath(path: string, apiSpec: IOpenAPIDocument | null): string {
+  // Paths that are already part of the spec are left alone
+  if (!apiSpec?.paths || apiSpec.paths[path]) {
+    return path;
+  }
+
+  let longestBasePath = '';
+  for (const { basePath } of getSpecServers(apiSpec)) {
+    if (basePath.length > longestBasePath.length && hasBasePath(path, basePath)) {
+      longestBasePath = basePath;
+    }
+  }
+
+  if (!longestBasePath) {
+    return path;
+  }
+
+  const strippedPath = path.slice(longestBasePath.length) || '/';
+  log.debug(`Stripped server base path ${longestBasePath} from ${path}`);
+  return strippedPath;
+}
+
+/**
+ * Check whether a path starts with a base path at a segment boundary
+ */
+function hasBasePath(path: string, basePath: string): boolean {
+  if (!basePath) {
+    return true;
+  }
+
+  return path === basePath || path.startsWith(`${basePath}/`);
+}
+
+/**
+ * Substitute server variables, producing one URL per enum value combination
+ */
+function expandServerUrl(server: IServerObject): string[] {
+  let urls = [server.url];
+
+  for (const [name, variable] of Object.entries(server.variables || {})) {
+    const values =
+      Array.isArray(variable.enum) && variable.enum.length > 0
+        ? variable.enum.map(String)
+        : [String(variable.default ?? '')];
+
+    const expanded: string[] = [];
+    for (const url of urls) {
+      for (const value of values) {
+        expanded.push(url.split(`{${name}}`).join(value));
+      }
+    }
+
+    urls = expanded.slice(0, MAX_SERVER_VARIANTS);
+  }
+
+  return urls;
+}
+
+/**
+ * Split a server URL (absolute or relative) into host and base path
+ */
+function parseServerUrl(url: string): IApiServer {
+  let host: string | undefined;
+  let pathname: string;
+
+  try {
+    const parsed = new URL(url);
+    host = parsed.host;
+    pathname = parsed.pathname;
+  } catch (_e) {
+    // Relative server URL, e.g. /api/v2
+    pathname = url.split(/[?#]/)[0];
+  }
+
+  // Normalize to a leading slash and no trailing slash ('' for the root)
+  let basePath = pathname.replace(/\/+$/, '');
+  if (basePath && !basePath.startsWith('/')) {
+    basePath = `/${basePath.replace(/^\.\/?/, '')}`;
+  }
+  if (basePath === '/' || basePath === '/.') {
+    basePath = '';
+  }
+
+  return { url, host, basePath };
+}
@@ -0,0 +1,102 @@
+import { ISpecTrackingTarget, ITrackingContext, ITrackingTarget } from '../types/index.js';
+import { matchesHost } from './request-filter.js';
+import { getSpecServers } from './server-resolver.js';
+
+/**
+ * Tracking target selected for a request, with the path to match against its spec
+ */
+export interface IRoutedRequest {
+  target: ITrackingTarget;
+  pathname: string;
+  routed: boolean; // True when an additional spec was selected
+}
+
+/**
+ * Select the spec a request belongs to
+ * Additional specs are matched by host and/or path prefix (the longest matching prefix wins),
+ * other requests go to the default spec. Returns null when no spec claims the request.
+ */
+export function routeRequest(context: ITrackingContext, fullUrl: URL): IRoutedRequest | null {
+  let bestMatch: ISpecTrackingTarget | null = null;
+  let bestRank = -1;
+
+  for (const target of context.specTargets || []) {
+    const rank = getRouteRank(target, fullUrl);
+    if (rank > bestRank) {
+      bestMatch = target;
+      bestRank = rank;
+    }
+  }
+
+  if (bestMatch) {
+    const prefix = normalizePrefix(bestMatch.pathPrefix);
+    return {
+      target: bestMatch,
+      pathname: prefix ? fullUrl.pathname.slice(prefix.length) || '/' : fullUrl.pathname,
+      routed: true,
+    };
+  }
+
+  // Without a default spec, requests outside the additional specs are not API calls we cover
+  if (context.specTargets && context.specTargets.length > 0 && !context.apiSpec) {
+    return null;
+  }
+
+  return { target: context, pathname: fullUrl.pathname, routed: false };
+}
+
+/**
+ * Check whether requests can be routed to a spec, by host or by path prefix
+ * A spec without hosts, path prefix or absolute servers would otherwise claim every request
+ */
+export function isRoutableSpec(
+  target: Pick<ISpecTrackingTarget, 'hosts' | 'pathPrefix' | 'apiSpec'>
+): boolean {
+  return getRouteHosts(target).length > 0 || !!normalizePrefix(target.pathPrefix);
+}
+
+/**
+ * Rank how specifically a spec claims a request, -1 when it does not
+ * Host matches rank above prefix-only specs, longer path prefixes rank above shorter ones
+ */
+function getRouteRank(target: ISpecTrackingTarget, fullUrl: URL): number {
+  if (!isRoutableSpec(target)) {
+    return -1;
+  }
+
+  const hosts = getRouteHosts(target);
+  if (hosts.length > 0 && !matchesHost(hosts, fullUrl)) {
+    return -1;
+  }
+
+  const prefix = normalizePrefix(target.pathPrefix);
+  if (prefix && fullUrl.pathname !== prefix && !fullUrl.pathname.startsWith(`${prefix}/`)) {
+    return -1;
+  }
+
+  return (hosts.length > 0 ? 1 : 0) + prefix.length * 2;
+}
+
+/**
+ * Get the configured hosts of a spec, else the hosts of its absolute servers
+ */
+function getRouteHosts(target: Pick<ISpecTrackingTarget, 'hosts' | 'apiSpec'>): string[] {
+  return (
+    target.hosts ||
+    getSpecServers(target.apiSpec)
+      .map(({ host }) => host)
+      .filter((host): host is string => !!host)
+  );
+}
+
+/**
+ * Normalize a path prefix to a leading slash and no trailing slash
+ */
+function normalizePrefix(prefix: string | undefined): string {
+  if (!prefix) {
+    return '';
+  }
+
+  const trimmed = prefix.replace(/\/+$/, '');
+  return trimmed && !trimmed.startsWith('/') ? `/${trimmed}` : trimmed;
+}
@@ -6,7 +6,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import OpenAPICoverageService from '../../src/index.js';
-import { apiClient } from '../../src/index.js';
+import { apiClient, launcher as OpenAPICoverageLauncher } from '../../src/index.js';
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
 import type { Browser } from 'webdriverio';
@@ -118,6 +118,10 @@ describe('OpenAPI Coverage Service Integration Tests', () => {
       logLevel: 'silent',
     };
 
+    // Clear the data of previous runs, like WebdriverIO before starting the workers
+    const launcher = new OpenAPICoverageLauncher(options as any);
+    launcher.onPrepare();
+
     // Initialize the service
     service = new OpenAPICoverageService(options as any, {}, options as any);
 
@@ -139,8 +143,9 @@ describe('OpenAPI Coverage Service Integration Tests', () => {
       console.log('API call failed, but we can continue testing tracking');
     }
 
-    // Run the after hook to generate the report
+    // Run the after hook, then let the launcher generate the report
     await service.after(0, {}, []);
+    await launcher.onComplete();
 
     // Clean up any timers that might be set
     if (service['patternUpdateInterval']) {
@@ -179,6 +184,10 @@ describe('OpenAPI Coverage Service Integration Tests', () => {
       logLevel: 'silent',
     };
 
+    // Clear the data of previous runs, like WebdriverIO before starting the workers
+    const launcher = new OpenAPICoverageLauncher(options as any);
+    launcher.onPrepare();
+
     // Initialize the service
     service = new OpenAPICoverageService(options as any, {}, options as any);
 
@@ -198,8 +207,9 @@ describe('OpenAPI Coverage Service Integration Tests', () => {
       // Ignore network errors, we're just testing tracking
     }
 
-    // Run the after hook to generate the report
+    // Run the after hook, then let the launcher generate the report
     await service.after(0, {}, []);
+    await launcher.onComplete();
 
     // Clean up any timers that might be set
     if (service['patternUpdateInterval']) {
@@ -233,6 +243,10 @@ describe('OpenAPI Coverage Service Integration Tests', () => {
       logLevel: 'silent',
     };
 
+    // Clear the data of previous runs, like WebdriverIO before starting the workers
+    const launcher = new OpenAPICoverageLauncher(options as any);
+    launcher.onPrepare();
+
     // Initialize the service
     service = new OpenAPICoverageService(options as any, {}, options as any);
 
@@ -273,8 +287,9 @@ describe('OpenAPI Coverage Service Integration Tests', () => {
     // Let the interceptors finish processing
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    // Run the after hook to generate the report
+    // Run the after hook, then let the launcher generate the report
     await service.after(0, {}, []);
+    await launcher.onComplete();
 
     // Clean up any timers that might be set
     if (service['patternUpdateInterval']) {
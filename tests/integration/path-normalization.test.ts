@@ -5,7 +5,7 @@ import { describe, expect, test, beforeAll, afterAll } from '@jest/globals';
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import OpenAPICoverageService from '../../src/index.js';
+import OpenAPICoverageService, { launcher as OpenAPICoverageLauncher } from '../../src/index.js';
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
 import type { Browser } from 'webdriverio';
@@ -130,6 +130,10 @@ describe('Path Normalization Integration Tests', () => {
       logLevel: 'silent',
     };
 
+    // Clear the data of previous runs, like WebdriverIO before starting the workers
+    const launcher = new OpenAPICoverageLauncher(options as any);
+    launcher.onPrepare();
+
     const service = new OpenAPICoverageService(options as any, {}, options as any);
 
     // Create a mock Browser object
@@ -191,8 +195,9 @@ describe('Path Normalization Integration Tests', () => {
     // Wait for all requests to complete
     await Promise.all([...getRequests, ...postRequests]);
 
-    // Run the after hook to generate the report
+    // Run the after hook, then let the launcher generate the report
     await service.after(0, {}, []);
+    await launcher.onComplete();
 
     // Clean up any timers that might be set
     if (service['patternUpdateInterval']) {
@@ -11,7 +11,7 @@ import MockAdapter from 'axios-mock-adapter';
 import { normalizePath } from '../../src/utils/path-normalizer.js';
 import type { Browser } from 'webdriverio';
 import { join } from 'path';
-import { apiClient } from '../../src/index.js';
+import { apiClient, launcher as OpenAPICoverageLauncher } from '../../src/index.js';
 
 // Get directory path for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -145,15 +145,16 @@ describe('OpenAPI Coverage Service Snapshots', () => {
 
   test('coverage report format should match snapshot', async () => {
     // Create a service with a known OpenAPI spec
-    const service = new OpenAPICoverageService(
-      {
-        openApiPath: path.join(__dirname, '../fixtures/openapi.json'),
-        outputPath: path.join(__dirname, '../fixtures/report-snapshot.json'),
-        logLevel: 'silent',
-      } as any,
-      {},
-      {} as any
-    );
+    const options = {
+      openApiPath: path.join(__dirname, '../fixtures/openapi.json'),
+      outputPath: path.join(__dirname, '../fixtures/report-snapshot.json'),
+      logLevel: 'silent',
+      // The fixture spec declares a localhost server, track the host the test calls instead
+      includeHosts: ['jsonplaceholder.typicode.com'],
+    };
+    const launcher = new OpenAPICoverageLauncher(options as any);
+    launcher.onPrepare();
+    const service = new OpenAPICoverageService(options as any, {}, {} as any);
 
     await service.before({}, [], {} as Browser);
 
@@ -166,6 +167,7 @@ describe('OpenAPI Coverage Service Snapshots', () => {
     }
 
     await service.after(0, {}, []);
+    await launcher.onComplete();
 
     // Read the report
     const report = JSON.parse(
@@ -6,7 +6,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import OpenAPICoverageService from '../../src/index.js';
-import { apiClient } from '../../src/index.js';
+import { apiClient, launcher as OpenAPICoverageLauncher } from '../../src/index.js';
 import type { Browser } from 'webdriverio';
 
 // Get directory path for ES modules
@@ -41,8 +41,14 @@ describe('OpenAPI Coverage Service WebdriverIO Integration', () => {
       openApiPath: OPENAPI_PATH,
       outputPath: OUTPUT_PATH,
       logLevel: 'silent',
+      // The fixture spec declares a localhost server, track the host the test calls instead
+      includeHosts: ['jsonplaceholder.typicode.com'],
     };
 
+    // Clear the data of previous runs, like WebdriverIO before starting the workers
+    const launcher = new OpenAPICoverageLauncher(options as any);
+    launcher.onPrepare();
+
     // Create first worker service
     const worker1Service = new OpenAPICoverageService(options as any, {}, options as any);
 
@@ -75,11 +81,11 @@ describe('OpenAPI Coverage Service WebdriverIO Integration', () => {
     // Finalize both workers
     await worker2Service.after(0, {}, []);
 
-    // Switch back to main worker for final report generation
     process.env.WDIO_WORKER_ID = '0-0';
     await worker1Service.after(0, {}, []);
 
-    // Verify the report was generated by the main worker
+    // The launcher generates the report once both workers have finished
+    await launcher.onComplete();
     expect(fs.existsSync(OUTPUT_PATH)).toBe(true);
 
     // Read and parse the report
@@ -135,6 +141,7 @@ describe('OpenAPI Coverage Service WebdriverIO Integration', () => {
 
     // Should not throw when generating report without a spec
     await expect(service.after(0, {}, [])).resolves.not.toThrow();
+    await expect(new OpenAPICoverageLauncher(options as any).onComplete()).resolves.not.toThrow();
 
     // Report should still be generated
     expect(fs.existsSync(OUTPUT_PATH)).toBe(true);
@@ -2,6 +2,7 @@
  * @jest-environment node
  */
 import { jest, describe, expect, test, beforeEach, afterAll } from '@jest/globals';
+import path from 'node:path';
 import OpenAPICoverageService from '../../src/index.js';
 import type { Options, Capabilities } from '@wdio/types';
 import axios from 'axios';
@@ -43,22 +44,13 @@ jest.mock('../../src/lib/openapi-processor.js', () => ({
   generatePathPatterns: jest.fn().mockImplementation(() => []),
 }));
 
-jest.mock('../../src/lib/endpoint-collector.js', () => ({
-  getAllHitEndpoints: jest.fn().mockImplementation(() => ['GET /users']),
-  getAllServerErrors: jest.fn().mockImplementation(() => ({})),
-}));
-
 jest.mock('../../src/utils/file-utils.js', () => ({
   saveHitEndpoints: jest.fn(),
   saveErrors: jest.fn(),
-  ensureTempDirs: jest.fn(),
+  saveEndpointUsage: jest.fn(),
   COVERAGE_DIR: '.temp/openapi',
 }));
 
-jest.mock('../../src/lib/report-generator.js', () => ({
-  generateCoverageReport: jest.fn(),
-}));
-
 // Mock SwaggerParser
 jest.mock('@apidevtools/swagger-parser', () => ({
   default: {
@@ -179,7 +171,37 @@ describe('OpenAPICoverageService', () => {
     expect(service['initialized']).toBe(true);
   });
 
-  test('after method should generate a report', async () => {
+  test('test and scenario hooks should set the test requests are attributed to', () => {
+    service.beforeTest({
+      fullTitle: 'users can sign up',
+      title: 'can sign up',
+      parent: 'users',
+      file: path.join(process.cwd(), 'test/specs/users.e2e.ts'),
+    } as any);
+    expect(service['getTrackingContext']().currentTest).toBe('users can sign up');
+    expect(service['getTrackingContext']().currentTestReference).toEqual({
+      file: path.join('test', 'specs', 'users.e2e.ts'),
+      suite: 'users',
+      title: 'can sign up',
+    });
+
+    service.afterTest();
+    expect(service['getTrackingContext']().currentTest).toBeUndefined();
+    expect(service['getTrackingContext']().currentTestReference).toBeUndefined();
+
+    service.beforeScenario({
+      pickle: { name: 'Checkout with a coupon', uri: 'features/checkout.feature' },
+      gherkinDocument: { feature: { name: 'Checkout' } },
+    } as any);
+    expect(service['getTrackingContext']().currentTest).toBe('Checkout with a coupon');
+    expect(service['getTrackingContext']().currentTestReference).toEqual({
+      file: path.join('features', 'checkout.feature'),
+      suite: 'Checkout',
+      title: 'Checkout with a coupon',
+    });
+  });
+
+  test('after method should save the data of the worker', async () => {
     // Setup test data
     service['specEndpoints'] = new Set(['GET /users', 'POST /users']);
     service['hitEndpoints'] = new Set(['GET /users']);
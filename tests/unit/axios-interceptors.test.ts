@@ -0,0 +1,439 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test, beforeEach, afterEach } from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import axios, { AxiosError } from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import {
+  apiClient,
+  setupInterceptors,
+  trackAxiosInstance,
+  untrackAxiosInstance,
+  untrackAllAxiosInstances,
+  hookAxiosCreate,
+} from '../../src/interceptors/axios-interceptors.js';
+import { trackInFlightRequests, trackRequest } from '../../src/interceptors/request-tracker.js';
+import type { ITrackingContext, IOpenAPIDocument } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const apiSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  paths: {
+    '/users': { get: {}, post: {} },
+    '/users/{id}': { get: {} },
+  },
+};
+
+describe('axios instance tracking', () => {
+  let context: ITrackingContext;
+
+  beforeEach(() => {
+    const tempDir = os.tmpdir();
+    context = {
+      hitEndpoints: new Set<string>(),
+      endpointErrors: {},
+      apiSpec,
+      workerId: 'axios-test',
+      hitEndpointsFile: path.join(tempDir, 'endpoints-axios-test.json'),
+      errorsFile: path.join(tempDir, 'errors-axios-test.json'),
+      endpointUsage: {},
+      usageFile: path.join(tempDir, 'usage-axios-test.json'),
+      customPatterns: [],
+    };
+    setupInterceptors(context);
+  });
+
+  afterEach(() => {
+    untrackAllAxiosInstances();
+  });
+
+  test('should track requests of a registered instance', async () => {
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    const mock = new MockAdapter(client);
+    mock.onGet('/users/1').reply(200, {});
+    mock.onPost('/users').reply(500, {});
+
+    await client.get('/users/1');
+    await client.post('/users').catch(() => undefined);
+
+    expect([...context.hitEndpoints].sort()).toEqual(['GET /users/{id}', 'POST /users']);
+    expect(context.endpointErrors['POST /users']).toEqual(
+      expect.objectContaining({ count: 1, statusCodes: { '500': 1 } })
+    );
+  });
+
+  test('should record every response status per operation', async () => {
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    const mock = new MockAdapter(client);
+    mock.onGet('/users/1').reply(200, {});
+    mock.onGet('/users/2').reply(404, {});
+    mock.onPost('/users').reply(201, {});
+
+    await client.get('/users/1');
+    await client.get('/users/2').catch(() => undefined);
+    await client.post('/users');
+
+    expect(context.endpointUsage['GET /users/{id}'].statusCodes).toEqual({ '200': 1, '404': 1 });
+    expect(context.endpointUsage['POST /users'].statusCodes).toEqual({ '201': 1 });
+    expect(context.endpointErrors).toEqual({});
+  });
+
+  test('should record the names of the query parameters sent', async () => {
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    new MockAdapter(client).onGet(/\/users.*/).reply(200, []);
+
+    await client.get('/users', { params: { page: 2, ids: [1, 2] } });
+    await client.get('/users?page=3&sort=name');
+
+    expect([...context.hitEndpoints]).toEqual(['GET /users']);
+    expect(context.endpointUsage['GET /users'].queryParams).toEqual({
+      page: 2,
+      'ids[]': 1,
+      sort: 1,
+    });
+  });
+
+  test('should record header and cookie names and only opted-in values', async () => {
+    context.recordParameterValues = ['X-Tenant'];
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    new MockAdapter(client).onGet('/users').reply(200, []);
+
+    await client.get('/users', {
+      headers: {
+        'X-Tenant': 'acme',
+        'Idempotency-Key': 'secret-key',
+        Cookie: 'session=abc; beta=1',
+      },
+    });
+
+    const usage = context.endpointUsage['GET /users'];
+    expect(usage.headers).toMatchObject({ 'x-tenant': 1, 'idempotency-key': 1, cookie: 1 });
+    expect(usage.cookies).toEqual({ session: 1, beta: 1 });
+    expect(usage.parameterValues).toEqual({ 'header:x-tenant': ['acme'] });
+  });
+
+  test('should record the property paths of JSON request bodies', async () => {
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    new MockAdapter(client).onPost('/users').reply(201, {});
+
+    await client.post('/users', { name: 'Ada', address: { city: 'London' }, roles: [{ id: 1 }] });
+    await client.post('/users', 'plain text', { headers: { 'Content-Type': 'text/plain' } });
+
+    expect(context.endpointUsage['POST /users'].bodyProperties).toEqual({
+      name: 1,
+      address: 1,
+      'address.city': 1,
+      roles: 1,
+      'roles[].id': 1,
+    });
+  });
+
+  test('should record response schema violations when responses are validated', async () => {
+    context.validateResponses = true;
+    context.apiSpec = {
+      openapi: '3.0.0',
+      paths: {
+        '/users/{id}': {
+          get: {
+            responses: {
+              '200': {
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      required: ['id', 'email', 'password'],
+                      properties: {
+                        id: { type: 'integer' },
+                        email: { type: 'string' },
+                        password: { type: 'string', writeOnly: true },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    const mock = new MockAdapter(client);
+    mock.onGet('/users/1').reply(200, { id: 1, email: 'ada@example.com' });
+    mock.onGet('/users/2').reply(200, { id: '2' });
+
+    await client.get('/users/1');
+    await client.get('/users/2');
+
+    const usage = context.endpointUsage['GET /users/{id}'];
+    expect(usage.validatedResponses).toBe(2);
+    expect(usage.invalidResponses).toBe(1);
+    expect(usage.contractViolations).toEqual([
+      { status: '200', path: '$.email', expected: 'required', actual: 'missing', count: 1 },
+      { status: '200', path: '$.id', expected: 'integer', actual: 'string', count: 1 },
+    ]);
+  });
+
+  test('should record request violations against the running test', async () => {
+    context.validateRequests = true;
+    context.currentTest = 'lists users';
+    context.apiSpec = {
+      openapi: '3.0.0',
+      paths: {
+        '/users': {
+          get: {
+            parameters: [
+              { name: 'limit', in: 'query', schema: { type: 'integer', maximum: 100 } },
+              { name: 'X-Tenant', in: 'header', required: true },
+            ],
+          },
+        },
+      },
+    };
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    new MockAdapter(client).onGet('/users').reply(200, []);
+
+    await client.get('/users', { params: { limit: 500 } });
+    await client.get('/users', { params: { limit: 10 }, headers: { 'X-Tenant': 'acme' } });
+
+    const usage = context.endpointUsage['GET /users'];
+    expect(usage.validatedRequests).toBe(2);
+    expect(usage.invalidRequests).toBe(1);
+    expect(usage.requestViolations).toEqual([
+      {
+        test: 'lists users',
+        path: 'query.limit',
+        expected: 'maximum 100',
+        actual: '500',
+        count: 1,
+      },
+      {
+        test: 'lists users',
+        path: 'header.X-Tenant',
+        expected: 'required',
+        actual: 'missing',
+        count: 1,
+      },
+    ]);
+  });
+
+  test('should split client errors into intentional and accidental ones', async () => {
+    context.negativeTestPattern = /negative/i;
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    const mock = new MockAdapter(client);
+    mock.onGet('/users/1').reply(404);
+    mock.onPost('/users').reply(422);
+
+    // 4xx responses count whether or not validateStatus rejects them
+    await client.get('/users/1', { validateStatus: () => true });
+    await expect(client.post('/users', {})).rejects.toThrow();
+
+    context.currentTest = 'rejects an invalid user (negative)';
+    await expect(client.post('/users', {})).rejects.toThrow();
+
+    context.currentTest = 'loads a missing user';
+    context.expectedErrorStatuses = [404];
+    await client.get('/users/1', { validateStatus: () => true });
+
+    expect(context.endpointUsage['GET /users/{id}'].accidentalClientErrors).toEqual({ '404': 1 });
+    expect(context.endpointUsage['GET /users/{id}'].intentionalClientErrors).toEqual({ '404': 1 });
+    expect(context.endpointUsage['POST /users'].accidentalClientErrors).toEqual({ '422': 1 });
+    expect(context.endpointUsage['POST /users'].intentionalClientErrors).toEqual({ '422': 1 });
+    expect(context.endpointUsage['POST /users'].lastClientError).toBe(
+      'Request failed with status code 422'
+    );
+  });
+
+  test('should record network failures and requests left in flight', async () => {
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    const mock = new MockAdapter(client);
+    mock
+      .onGet('/users/1')
+      .reply((config) =>
+        Promise.reject(new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED', config))
+      );
+    mock.onGet('/users/2').timeout();
+
+    await client.get('/users/1').catch(() => undefined);
+    await client.get('/users/2').catch(() => undefined);
+    trackRequest(context, 'POST', new URL('https://api.example.com/users'));
+
+    expect(trackInFlightRequests(context)).toBe(1);
+    expect(context.endpointUsage['GET /users/{id}']).toEqual(
+      expect.objectContaining({
+        networkFailures: { ECONNREFUSED: 1, ECONNABORTED: 1 },
+        lastNetworkError: expect.any(String),
+      })
+    );
+    expect(context.endpointUsage['POST /users'].inFlightAtEnd).toBe(1);
+    expect(trackInFlightRequests(context)).toBe(0);
+  });
+
+  test('should settle responses on the endpoint of a baseURL with a path prefix', async () => {
+    context.apiSpec = {
+      openapi: '3.0.0',
+      paths: { '/api/v2/users/{id}': { get: {} } },
+    };
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com/api/v2' }));
+    const mock = new MockAdapter(client);
+    mock.onGet('/users/1').reply(200, { id: 1 });
+    mock.onGet('/users/2').reply(503, {});
+
+    await client.get('/users/1');
+    await client.get('/users/2').catch(() => undefined);
+
+    expect(Object.keys(context.endpointUsage)).toEqual(['GET /api/v2/users/{id}']);
+    expect(context.endpointUsage['GET /api/v2/users/{id}']).toEqual(
+      expect.objectContaining({
+        statusCodes: { '200': 1, '503': 1 },
+        latencies: [expect.any(Number), expect.any(Number)],
+      })
+    );
+    expect(Object.keys(context.endpointErrors)).toEqual(['GET /api/v2/users/{id}']);
+    expect(trackInFlightRequests(context)).toBe(0);
+  });
+
+  test('should record response times and body sizes', async () => {
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    const mock = new MockAdapter(client);
+    mock.onPost('/users').reply(201, { id: 1 }, { 'content-length': '120' });
+    mock.onGet('/users/1').reply(200, { id: 1 });
+
+    await client.post('/users', { name: 'Ada' });
+    await client.get('/users/1');
+
+    expect(context.endpointUsage['POST /users']).toEqual(
+      expect.objectContaining({
+        latencies: [expect.any(Number)],
+        requestSizes: [14],
+        responseSizes: [120],
+      })
+    );
+    expect(context.endpointUsage['GET /users/{id}'].requestSizes).toBeUndefined();
+    expect(context.endpointUsage['GET /users/{id}'].responseSizes).toEqual([8]);
+  });
+
+  test('should keep the hits and endpoint usage in memory until the worker saves them', async () => {
+    fs.rmSync(context.hitEndpointsFile, { force: true });
+    fs.rmSync(context.usageFile, { force: true });
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    new MockAdapter(client).onGet('/users').reply(200, []);
+
+    await client.get('/users');
+
+    expect(context.hitEndpoints.has('GET /users')).toBe(true);
+    expect(context.endpointUsage['GET /users'].statusCodes).toEqual({ '200': 1 });
+    expect(fs.existsSync(context.hitEndpointsFile)).toBe(false);
+    expect(fs.existsSync(context.usageFile)).toBe(false);
+  });
+
+  test('should attribute requests to the running test', async () => {
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    const mock = new MockAdapter(client);
+    mock.onGet('/users').reply(200, []);
+
+    context.currentTestReference = { file: 'test/users.e2e.ts', suite: 'users', title: 'list' };
+    await client.get('/users');
+    await client.get('/users');
+    context.currentTestReference = undefined;
+    await client.get('/users');
+
+    expect(context.endpointUsage['GET /users'].tests).toEqual({
+      'test/users.e2e.ts › users › list': {
+        file: 'test/users.e2e.ts',
+        suite: 'users',
+        title: 'list',
+        count: 2,
+      },
+    });
+  });
+
+  test('should not attach interceptors twice to the same instance', () => {
+    const client = axios.create();
+    const useSpy = jest.spyOn(client.interceptors.request, 'use');
+
+    trackAxiosInstance(client);
+    trackAxiosInstance(client);
+
+    expect(useSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should eject interceptors when an instance is untracked', async () => {
+    const client = trackAxiosInstance(axios.create({ baseURL: 'https://api.example.com' }));
+    new MockAdapter(client).onGet('/users').reply(200, {});
+
+    untrackAxiosInstance(client);
+    await client.get('/users');
+
+    expect(context.hitEndpoints.size).toBe(0);
+  });
+
+  test('should track instances created through axios.create when hooked', async () => {
+    const originalCreate = axios.create;
+    hookAxiosCreate();
+
+    const client = axios.create({ baseURL: 'https://api.example.com' });
+    new MockAdapter(client).onGet('/users/9').reply(200, {});
+    await client.get('/users/9');
+
+    expect(context.hitEndpoints.has('GET /users/{id}')).toBe(true);
+
+    untrackAllAxiosInstances();
+    expect(axios.create).toBe(originalCreate);
+  });
+
+  test('should keep one interceptor per instance across repeated setups', async () => {
+    untrackAllAxiosInstances();
+    const useSpy = jest.spyOn(apiClient.interceptors.request, 'use');
+
+    setupInterceptors(context);
+    setupInterceptors(context);
+    setupInterceptors(context);
+    expect(useSpy).toHaveBeenCalledTimes(1);
+    useSpy.mockRestore();
+
+    // Patterns are read from the context on every request
+    context.customPatterns = [
+      { pattern: /^\/orders\/\d+$/, template: '/orders/{orderId}', priority: 100 },
+    ];
+    const mock = new MockAdapter(apiClient);
+    mock.onGet('https://api.example.com/orders/42').reply(200, {});
+    await apiClient.get('https://api.example.com/orders/42');
+    mock.restore();
+
+    expect([...context.hitEndpoints]).toEqual(['GET /orders/{orderId}']);
+  });
+
+  test('should leave the default axios instance untouched when asked to', () => {
+    untrackAllAxiosInstances();
+    const globalSpy = jest.spyOn(axios.interceptors.request, 'use');
+    const clientSpy = jest.spyOn(apiClient.interceptors.request, 'use');
+
+    setupInterceptors(context, false);
+
+    expect(globalSpy).not.toHaveBeenCalled();
+    expect(clientSpy).toHaveBeenCalledTimes(1);
+    globalSpy.mockRestore();
+    clientSpy.mockRestore();
+  });
+
+  test('should eject the interceptors of every instance on teardown', () => {
+    const ejectSpy = jest.spyOn(axios.interceptors.request, 'eject');
+
+    untrackAllAxiosInstances();
+
+    expect(ejectSpy).toHaveBeenCalledTimes(1);
+    ejectSpy.mockRestore();
+  });
+});
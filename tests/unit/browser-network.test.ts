@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test, beforeEach } from '@jest/globals';
+import { EventEmitter } from 'node:events';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  setupBrowserNetworkTracking,
+  IBrowserEventSource,
+} from '../../src/interceptors/browser-network.js';
+import type { ITrackingContext, IOpenAPIDocument } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const apiSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  paths: {
+    '/users': { get: {}, post: {} },
+    '/users/{id}': { get: {} },
+  },
+};
+
+/**
+ * Fake WebdriverIO browser that emits network events on demand
+ */
+class FakeBrowser extends EventEmitter implements IBrowserEventSource {
+  isBidi = true;
+  sessionSubscribe = jest.fn((_params: { events: string[] }) => Promise.resolve({}));
+}
+
+describe('browser network tracking', () => {
+  let browser: FakeBrowser;
+  let context: ITrackingContext;
+
+  beforeEach(() => {
+    browser = new FakeBrowser();
+
+    const tempDir = os.tmpdir();
+    context = {
+      hitEndpoints: new Set<string>(),
+      endpointErrors: {},
+      apiSpec,
+      workerId: 'browser-test',
+      hitEndpointsFile: path.join(tempDir, 'endpoints-browser-test.json'),
+      errorsFile: path.join(tempDir, 'errors-browser-test.json'),
+      endpointUsage: {},
+      usageFile: path.join(tempDir, 'usage-browser-test.json'),
+      customPatterns: [],
+    };
+  });
+
+  test('should subscribe to BiDi network events and record API calls', async () => {
+    await setupBrowserNetworkTracking(browser, context);
+
+    expect(browser.sessionSubscribe).toHaveBeenCalledWith({
+      events: ['network.responseCompleted', 'network.fetchError'],
+    });
+
+    browser.emit('network.responseCompleted', {
+      navigation: null,
+      request: { url: 'https://app.example.com/users/5', method: 'GET' },
+      response: {
+        url: 'https://app.example.com/users/5',
+        status: 200,
+        mimeType: 'application/json',
+      },
+    });
+    browser.emit('network.responseCompleted', {
+      navigation: null,
+      request: { url: 'https://app.example.com/users', method: 'POST' },
+      response: { url: 'https://app.example.com/users', status: 502, mimeType: 'application/json' },
+    });
+
+    expect([...context.hitEndpoints].sort()).toEqual(['GET /users/{id}', 'POST /users']);
+    expect(context.endpointErrors['POST /users']).toEqual(
+      expect.objectContaining({ count: 1, statusCodes: { '502': 1 } })
+    );
+  });
+
+  test('should ignore navigations and static assets', async () => {
+    await setupBrowserNetworkTracking(browser, context);
+
+    browser.emit('network.responseCompleted', {
+      navigation: 'nav-1',
+      request: { url: 'https://app.example.com/users', method: 'GET' },
+      response: { status: 200, mimeType: 'text/html' },
+    });
+    browser.emit('network.responseCompleted', {
+      navigation: null,
+      request: { url: 'https://app.example.com/main.js', method: 'GET' },
+      response: { status: 200, mimeType: 'application/javascript' },
+    });
+    browser.emit('network.responseCompleted', {
+      navigation: null,
+      request: { url: 'data:image/png;base64,AAAA', method: 'GET' },
+      response: { status: 200, mimeType: 'application/json' },
+    });
+
+    expect(context.hitEndpoints.size).toBe(0);
+  });
+
+  test('should record XHR/fetch calls from DevTools events', async () => {
+    browser.isBidi = false;
+    await setupBrowserNetworkTracking(browser, context);
+
+    expect(browser.sessionSubscribe).not.toHaveBeenCalled();
+
+    browser.emit('Network.requestWillBeSent', {
+      requestId: '1',
+      type: 'Fetch',
+      request: { url: 'https://app.example.com/users', method: 'POST' },
+    });
+    browser.emit('Network.responseReceived', {
+      requestId: '1',
+      type: 'Fetch',
+      response: { url: 'https://app.example.com/users', status: 201 },
+    });
+    browser.emit('Network.responseReceived', {
+      requestId: '2',
+      type: 'Image',
+      response: { url: 'https://app.example.com/logo.png', status: 200 },
+    });
+
+    expect([...context.hitEndpoints]).toEqual(['POST /users']);
+  });
+
+  test('should record requests that failed without a response', async () => {
+    await setupBrowserNetworkTracking(browser, context);
+
+    browser.emit('network.fetchError', {
+      navigation: null,
+      request: { url: 'https://app.example.com/users/5', method: 'GET' },
+      errorText: 'net::ERR_CONNECTION_REFUSED',
+    });
+
+    expect([...context.hitEndpoints]).toEqual(['GET /users/{id}']);
+    expect(context.endpointUsage['GET /users/{id}'].networkFailures).toEqual({
+      ERR_CONNECTION_REFUSED: 1,
+    });
+  });
+
+  test('should record cancelled DevTools requests as aborted', async () => {
+    browser.isBidi = false;
+    await setupBrowserNetworkTracking(browser, context);
+
+    browser.emit('Network.requestWillBeSent', {
+      requestId: '1',
+      type: 'XHR',
+      request: { url: 'https://app.example.com/users', method: 'POST' },
+    });
+    browser.emit('Network.loadingFailed', {
+      requestId: '1',
+      type: 'XHR',
+      errorText: 'net::ERR_ABORTED',
+      canceled: true,
+    });
+
+    expect(context.endpointUsage['POST /users'].networkFailures).toEqual({ ABORTED: 1 });
+  });
+
+  test('should remove its listeners when cleaned up', async () => {
+    const removeTracking = await setupBrowserNetworkTracking(browser, context);
+    removeTracking();
+
+    expect(browser.listenerCount('network.responseCompleted')).toBe(0);
+    expect(browser.listenerCount('Network.responseReceived')).toBe(0);
+  });
+});
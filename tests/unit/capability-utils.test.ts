@@ -0,0 +1,41 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, test } from '@jest/globals';
+import { describeWorker } from '../../src/utils/capability-utils.js';
+
+describe('capability utils', () => {
+  test('should describe a worker by browser, version and platform', () => {
+    expect(
+      describeWorker('0-0', {
+        browserName: 'chrome',
+        browserVersion: '120',
+        platformName: 'linux',
+      })
+    ).toEqual({
+      workerId: '0-0',
+      capability: 'chrome 120 on linux',
+      browserName: 'chrome',
+      browserVersion: '120',
+      platformName: 'linux',
+    });
+  });
+
+  test('should add the configured labels, following dots into vendor options', () => {
+    const worker = describeWorker(
+      '1-0',
+      {
+        browserName: 'safari',
+        'bstack:options': { deviceName: 'iPhone 15' },
+      } as WebdriverIO.Capabilities,
+      ['bstack:options.deviceName', 'wdio:missing']
+    );
+
+    expect(worker.capability).toBe('safari (deviceName=iPhone 15)');
+    expect(worker.labels).toEqual({ 'bstack:options.deviceName': 'iPhone 15' });
+  });
+
+  test('should fall back to unknown without capabilities', () => {
+    expect(describeWorker('0', undefined)).toEqual({ workerId: '0', capability: 'unknown' });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test, beforeEach, afterEach } from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { getAllHitEndpoints, getHitEndpointsByWorker } from '../../src/lib/endpoint-collector.js';
+import { saveHitEndpoints } from '../../src/utils/file-utils.js';
+import type { IEndpointHitRecord } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+describe('endpoint collector', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'endpoint-collector-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should aggregate the call counts of every worker', () => {
+    saveHitEndpoints(
+      path.join(directory, 'endpoints-0-0.json'),
+      new Set(['GET /users/{id}', 'GET /users']),
+      '0-0',
+      {
+        'GET /users/{id}': {
+          count: 3,
+          firstSeen: '2024-01-01T10:00:00.000Z',
+          lastSeen: '2024-01-01T10:05:00.000Z',
+        },
+        'GET /users': {
+          count: 1,
+          firstSeen: '2024-01-01T10:01:00.000Z',
+          lastSeen: '2024-01-01T10:01:00.000Z',
+        },
+      }
+    );
+
+    // The worker replaced its concrete endpoint with the template once it saw both
+    saveHitEndpoints(
+      path.join(directory, 'endpoints-1-0.json'),
+      new Set(['GET /users/{id}']),
+      '1-0',
+      {
+        'GET /users/7': {
+          count: 1,
+          firstSeen: '2024-01-01T09:00:00.000Z',
+          lastSeen: '2024-01-01T09:00:00.000Z',
+        },
+        'GET /users/{id}': {
+          count: 1,
+          firstSeen: '2024-01-01T11:00:00.000Z',
+          lastSeen: '2024-01-01T11:00:00.000Z',
+        },
+      }
+    );
+
+    const hitCounts: Record<string, IEndpointHitRecord> = {};
+    const hitEndpoints = getAllHitEndpoints(new Set(), '0-0', directory, hitCounts);
+
+    expect(hitEndpoints.sort()).toEqual(['GET /users', 'GET /users/{id}']);
+    expect(hitCounts).toEqual({
+      'GET /users/{id}': {
+        count: 5,
+        firstSeen: '2024-01-01T09:00:00.000Z',
+        lastSeen: '2024-01-01T11:00:00.000Z',
+      },
+      'GET /users': {
+        count: 1,
+        firstSeen: '2024-01-01T10:01:00.000Z',
+        lastSeen: '2024-01-01T10:01:00.000Z',
+      },
+    });
+  });
+
+  test('should still read worker files that only list endpoints', () => {
+    fs.writeFileSync(path.join(directory, 'endpoints-0.json'), JSON.stringify(['GET /health']));
+
+    const hitCounts: Record<string, IEndpointHitRecord> = {};
+    expect(getAllHitEndpoints(new Set(), '0', directory, hitCounts)).toEqual(['GET /health']);
+    expect(hitCounts).toEqual({});
+  });
+
+  test('should list the endpoints of each worker with its capability', () => {
+    const safari = { workerId: '1-0', capability: 'safari on mac' };
+    saveHitEndpoints(
+      path.join(directory, 'endpoints-1-0.json'),
+      new Set(['GET /users']),
+      '1-0',
+      {},
+      safari
+    );
+    saveHitEndpoints(path.join(directory, 'endpoints-0-0.json'), new Set(['GET /health']), '0-0');
+
+    expect(getHitEndpointsByWorker(directory)).toEqual([
+      { worker: safari, endpoints: ['GET /users'] },
+    ]);
+  });
+});
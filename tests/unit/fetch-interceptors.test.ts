@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test, beforeEach, afterEach } from '@jest/globals';
+import os from 'node:os';
+import path from 'node:path';
+import { setupFetchInterceptor, restoreFetch } from '../../src/interceptors/fetch-interceptors.js';
+import type { ITrackingContext, IOpenAPIDocument } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const apiSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  paths: {
+    '/users': { get: {}, post: {} },
+    '/users/{id}': { get: {} },
+  },
+};
+
+describe('fetch interceptor', () => {
+  const realFetch = globalThis.fetch;
+  let stubFetch: jest.Mock<(input: RequestInfo | URL, init?: RequestInit) => Promise<Response>>;
+  let context: ITrackingContext;
+
+  beforeEach(() => {
+    stubFetch = jest.fn((_input: RequestInfo | URL, _init?: RequestInit) =>
+      Promise.resolve(new Response('{}', { status: 200 }))
+    );
+    globalThis.fetch = stubFetch as unknown as typeof globalThis.fetch;
+
+    const tempDir = os.tmpdir();
+    context = {
+      hitEndpoints: new Set<string>(),
+      endpointErrors: {},
+      apiSpec,
+      workerId: 'fetch-test',
+      hitEndpointsFile: path.join(tempDir, 'endpoints-fetch-test.json'),
+      errorsFile: path.join(tempDir, 'errors-fetch-test.json'),
+      endpointUsage: {},
+      usageFile: path.join(tempDir, 'usage-fetch-test.json'),
+      customPatterns: [],
+    };
+  });
+
+  afterEach(() => {
+    restoreFetch();
+    globalThis.fetch = realFetch;
+  });
+
+  test('should record hits for string, URL and Request inputs', async () => {
+    setupFetchInterceptor(context);
+
+    await fetch('https://api.example.com/users');
+    await fetch(new URL('https://api.example.com/users/42'));
+    await fetch(new Request('https://api.example.com/users', { method: 'POST' }));
+
+    expect([...context.hitEndpoints].sort()).toEqual([
+      'GET /users',
+      'GET /users/{id}',
+      'POST /users',
+    ]);
+    expect(stubFetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('should record 5xx responses as server errors', async () => {
+    stubFetch.mockImplementation(() => Promise.resolve(new Response(null, { status: 503 })));
+    setupFetchInterceptor(context);
+
+    const response = await fetch('https://api.example.com/users/7', { method: 'GET' });
+
+    expect(response.status).toBe(503);
+    expect(context.endpointErrors['GET /users/{id}']).toEqual(
+      expect.objectContaining({ count: 1, statusCodes: { '503': 1 } })
+    );
+  });
+
+  test('should not track the WebDriver commands of the session', async () => {
+    context.webDriverEndpoint = new URL('http://localhost:4444/');
+    setupFetchInterceptor(context);
+
+    await fetch('http://localhost:4444/session', { method: 'POST' });
+    await fetch('http://localhost:4444/session/abc/url');
+    await fetch('https://api.example.com/users');
+
+    expect([...context.hitEndpoints]).toEqual(['GET /users']);
+    expect(stubFetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('should return responses before their body arrived and validate it later', async () => {
+    context.validateResponses = true;
+    context.apiSpec = {
+      openapi: '3.0.0',
+      paths: {
+        '/users/{id}': {
+          get: {
+            responses: {
+              '200': {
+                content: {
+                  'application/json': {
+                    schema: { type: 'object', properties: { id: { type: 'integer' } } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+    let sendBody: (chunk: string) => void = () => undefined;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        sendBody = (chunk) => {
+          controller.enqueue(new TextEncoder().encode(chunk));
+          controller.close();
+        };
+      },
+    });
+    stubFetch.mockImplementation(() =>
+      Promise.resolve(
+        new Response(body, { status: 200, headers: { 'content-type': 'application/json' } })
+      )
+    );
+    setupFetchInterceptor(context);
+
+    const response = await fetch('https://api.example.com/users/1');
+    const usage = context.endpointUsage['GET /users/{id}'];
+    expect(usage.statusCodes).toEqual({ '200': 1 });
+    expect(usage.validatedResponses).toBeUndefined();
+
+    sendBody('{"id":"1"}');
+    expect(await response.json()).toEqual({ id: '1' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(usage.validatedResponses).toBe(1);
+    expect(usage.contractViolations).toEqual([
+      { status: '200', path: '$.id', expected: 'integer', actual: 'string', count: 1 },
+    ]);
+  });
+
+  test('should not wrap fetch twice and should restore the original', async () => {
+    setupFetchInterceptor(context);
+    const wrapped = globalThis.fetch;
+
+    setupFetchInterceptor(context);
+    expect(globalThis.fetch).toBe(wrapped);
+
+    restoreFetch();
+    expect(globalThis.fetch).toBe(stubFetch);
+
+    await fetch('https://api.example.com/users');
+    expect(context.hitEndpoints.size).toBe(0);
+  });
+});
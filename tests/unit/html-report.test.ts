@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, test } from '@jest/globals';
+import { renderHtmlReport } from '../../src/lib/html-report.js';
+import type { ICoverageReport } from '../../src/types/index.js';
+
+function createReport(): ICoverageReport {
+  return {
+    summary: {
+      totalEndpoints: 2,
+      testedEndpoints: 1,
+      untestedEndpoints: 1,
+      coveragePercentage: 50,
+    },
+    methodCoverage: {
+      GET: { total: 1, tested: 1, percentage: 100 },
+      POST: { total: 1, tested: 0, percentage: 0 },
+    },
+    tagCoverage: {
+      tags: { users: { total: 2, tested: 1, percentage: 50, untested: ['POST /users'] } },
+    },
+    serverErrorStats: {
+      totalServerErrors: 3,
+      statusCodeCounts: { '500': 2, '503': 1 },
+      errorsByEndpoint: [{ endpoint: 'GET /users', count: 3 }],
+    },
+    endpoints: { tested: ['GET /users'], untested: ['POST /users'] },
+    extraEndpoints: ['GET /debug'],
+    serverErrors: {
+      'GET /users': {
+        count: 3,
+        statusCodes: { '500': 2, '503': 1 },
+        lastError: '<html>Service Unavailable</html>',
+      },
+    },
+    endpointStats: {
+      'GET /users': {
+        count: 7,
+        firstSeen: '2024-01-01T10:00:00.000Z',
+        lastSeen: '2024-01-01T10:05:00.000Z',
+        serverErrors: 3,
+        errorRate: 0.43,
+      },
+    },
+    timestamp: '2024-01-01T10:10:00.000Z',
+  };
+}
+
+describe('HTML report', () => {
+  test('should render a single offline page', () => {
+    const html = renderHtmlReport(createReport());
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html).toContain('<script>');
+    expect(html).not.toMatch(/<(link|script)[^>]+(href|src)=/);
+  });
+
+  test('should render summary cards, method and tag tables', () => {
+    const html = renderHtmlReport(createReport());
+
+    expect(html).toContain('<div class="value">50%</div><div class="label">Coverage</div>');
+    expect(html).toContain('<div class="value">1 / 2</div><div class="label">Tested</div>');
+    expect(html).toContain(
+      '<div class="value">3</div><div class="label">Server errors (5xx)</div>'
+    );
+    expect(html).toContain('<tr><td>POST</td><td>0 / 1</td><td>0%</td>');
+    expect(html).toContain('<tr><td>users</td><td>1 / 2</td><td>50%</td>');
+  });
+
+  test('should list every endpoint with its status for filtering', () => {
+    const html = renderHtmlReport(createReport());
+
+    expect(html).toContain('<tr data-endpoint="GET /users" data-status="tested">');
+    expect(html).toContain('<tr data-endpoint="POST /users" data-status="untested">');
+    expect(html).toContain('<tr data-endpoint="GET /debug" data-status="extra">');
+    expect(html).toContain('<td>7</td><td>3</td></tr>');
+    expect(html).not.toContain('<option value="excluded">');
+  });
+
+  test('should render the escaped details of every endpoint answering 5xx', () => {
+    const html = renderHtmlReport(createReport());
+
+    expect(html).toContain('<summary>GET /users: 3 server errors</summary>');
+    expect(html).toContain('<tr><td>503</td><td>1</td></tr>');
+    expect(html).toContain('<pre>&lt;html&gt;Service Unavailable&lt;/html&gt;</pre>');
+  });
+
+  test('should add a section per additional spec', () => {
+    const report = createReport();
+    report.rollup = {
+      summary: report.summary,
+      methodCoverage: report.methodCoverage,
+      serverErrorStats: report.serverErrorStats,
+    };
+    report.specs = { billing: { ...createReport(), serverErrors: {} } };
+
+    const html = renderHtmlReport(report);
+    expect(html).toContain('<h2>All specs</h2>');
+    expect(html).toContain('<h2>Default spec</h2>');
+    expect(html).toContain('<h2>billing</h2>');
+    expect(html).toContain('<p>No server errors.</p>');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import {
+  jest,
+  describe,
+  expect,
+  test,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import http, { IncomingMessage } from 'node:http';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  setupHttpInterceptors,
+  restoreHttpModules,
+  markRequestHandled,
+} from '../../src/interceptors/http-interceptors.js';
+import {
+  setupInterceptors,
+  trackAxiosInstance,
+  untrackAllAxiosInstances,
+} from '../../src/interceptors/axios-interceptors.js';
+import type { ITrackingContext, IOpenAPIDocument } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const apiSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  paths: {
+    '/users': { get: {}, post: {} },
+    '/users/{id}': { get: {} },
+  },
+};
+
+/**
+ * Send a request with the (possibly patched) http module and collect the response
+ */
+function send(url: string, method = 'GET'): Promise<{ status: number | undefined; body: string }> {
+  return new Promise((resolve, reject) => {
+    const request = http.request(url, { method }, (response: IncomingMessage) => {
+      let body = '';
+      response.on('data', (chunk) => (body += chunk));
+      response.on('end', () => resolve({ status: response.statusCode, body }));
+    });
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+describe('http/https interceptors', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let context: ITrackingContext;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.statusCode = req.url?.startsWith('/users/500') ? 500 : 200;
+      res.end('ok');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    const tempDir = os.tmpdir();
+    context = {
+      hitEndpoints: new Set<string>(),
+      endpointErrors: {},
+      apiSpec,
+      workerId: 'http-test',
+      hitEndpointsFile: path.join(tempDir, 'endpoints-http-test.json'),
+      errorsFile: path.join(tempDir, 'errors-http-test.json'),
+      endpointUsage: {},
+      usageFile: path.join(tempDir, 'usage-http-test.json'),
+      customPatterns: [],
+    };
+    setupHttpInterceptors(context);
+  });
+
+  afterEach(() => {
+    restoreHttpModules();
+  });
+
+  test('should record hits made through http.request and http.get', async () => {
+    const response = await send(`${baseUrl}/users/12?expand=true`);
+    await send(`${baseUrl}/users`, 'POST');
+    await new Promise<void>((resolve) => {
+      http.get(`${baseUrl}/users`, (res) => {
+        res.resume();
+        res.on('end', resolve);
+      });
+    });
+
+    expect(response).toEqual({ status: 200, body: 'ok' });
+    expect([...context.hitEndpoints].sort()).toEqual([
+      'GET /users',
+      'GET /users/{id}',
+      'POST /users',
+    ]);
+  });
+
+  test('should record 5xx responses as server errors', async () => {
+    await send(`${baseUrl}/users/500`);
+
+    expect(context.endpointErrors['GET /users/{id}']).toEqual(
+      expect.objectContaining({ count: 1, statusCodes: { '500': 1 } })
+    );
+  });
+
+  test('should still drain responses nobody listens to', async () => {
+    const request = http.request(`${baseUrl}/users`);
+    await new Promise<void>((resolve) => {
+      request.on('close', resolve);
+      request.end();
+    });
+
+    expect(context.hitEndpoints.has('GET /users')).toBe(true);
+  });
+
+  test('should skip requests already tracked by another client', async () => {
+    markRequestHandled('GET', new URL(`${baseUrl}/users/3`));
+
+    await send(`${baseUrl}/users/3`);
+    expect(context.hitEndpoints.size).toBe(0);
+
+    // Only the announced request is skipped
+    await send(`${baseUrl}/users/3`);
+    expect(context.hitEndpoints.has('GET /users/{id}')).toBe(true);
+  });
+
+  test('should not skip requests after the announced one settled without reaching http', async () => {
+    const release = markRequestHandled('GET', new URL(`${baseUrl}/users/4`));
+    release();
+
+    await send(`${baseUrl}/users/4`);
+    expect(context.hitEndpoints.has('GET /users/{id}')).toBe(true);
+  });
+
+  test('should track http requests after an axios request answered by a mock adapter', async () => {
+    setupInterceptors(context, false);
+    const client = trackAxiosInstance(axios.create());
+    new MockAdapter(client).onGet(`${baseUrl}/users/5`).reply(200, {});
+
+    await client.get(`${baseUrl}/users/5`);
+    untrackAllAxiosInstances();
+    context.hitEndpoints.clear();
+
+    await send(`${baseUrl}/users/5`);
+    expect(context.hitEndpoints.has('GET /users/{id}')).toBe(true);
+  });
+
+  test('should restore the original functions', async () => {
+    restoreHttpModules();
+
+    await send(`${baseUrl}/users`);
+    expect(context.hitEndpoints.size).toBe(0);
+  });
+});
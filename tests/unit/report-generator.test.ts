@@ -0,0 +1,875 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test, afterEach } from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createEndpointUsageRecord } from '../../src/lib/endpoint-collector.js';
+import { generateCoverageReport } from '../../src/lib/report-generator.js';
+import type { ICoverageReport, IOpenAPIDocument } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const OUTPUT_PATH = path.join(os.tmpdir(), 'report-generator-test.json');
+
+/**
+ * Read the report written by generateCoverageReport
+ */
+function readReport(): ICoverageReport {
+  return JSON.parse(fs.readFileSync(OUTPUT_PATH, 'utf-8')) as ICoverageReport;
+}
+
+describe('report generator', () => {
+  afterEach(() => {
+    if (fs.existsSync(OUTPUT_PATH)) {
+      fs.unlinkSync(OUTPUT_PATH);
+    }
+  });
+
+  test('should add a section per additional spec and a roll-up', () => {
+    generateCoverageReport(
+      new Set(['GET /users', 'POST /users']),
+      ['GET /users'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        specs: [
+          {
+            name: 'billing',
+            specEndpoints: new Set(['GET /invoices', 'GET /invoices/{invoiceId}']),
+            hitEndpoints: ['GET /invoices', 'GET /invoices/{invoiceId}', 'GET /refunds'],
+            serverErrors: { 'GET /invoices': { count: 2, statusCodes: { '502': 2 } } },
+          },
+        ],
+      }
+    );
+
+    const report = readReport();
+
+    // Top-level sections keep describing the default spec
+    expect(report.summary.testedEndpoints).toBe(1);
+    expect(report.endpoints.untested).toEqual(['POST /users']);
+
+    const billing = report.specs?.billing;
+    expect(billing?.summary).toEqual({
+      totalEndpoints: 2,
+      testedEndpoints: 2,
+      untestedEndpoints: 0,
+      coveragePercentage: 100,
+    });
+    expect(billing?.extraEndpoints).toEqual(['GET /refunds']);
+    expect(billing?.serverErrorStats.totalServerErrors).toBe(2);
+
+    expect(report.rollup?.summary).toEqual({
+      totalEndpoints: 4,
+      testedEndpoints: 3,
+      untestedEndpoints: 1,
+      coveragePercentage: 75,
+    });
+    expect(report.rollup?.methodCoverage.GET).toEqual({ total: 3, tested: 3, percentage: 100 });
+    expect(report.rollup?.serverErrorStats.statusCodeCounts).toEqual({ '502': 2 });
+  });
+
+  test('should compare documented and observed response statuses', () => {
+    const apiSpec: IOpenAPIDocument = {
+      openapi: '3.0.0',
+      paths: {
+        '/users': {
+          get: { responses: { '200': {}, '4XX': {} } },
+          post: { responses: { '201': {}, '409': {}, default: {} } },
+        },
+        '/users/{id}': { get: { responses: { '200': {}, '404': {} } } },
+      },
+    };
+
+    generateCoverageReport(
+      new Set(['GET /users', 'POST /users', 'GET /users/{id}']),
+      ['GET /users', 'POST /users', 'GET /users/{id}'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        apiSpec,
+        endpointUsage: {
+          'GET /users': { ...createEndpointUsageRecord(), statusCodes: { '200': 3, '401': 1 } },
+          'POST /users': { ...createEndpointUsageRecord(), statusCodes: { '201': 1, '500': 1 } },
+          'GET /users/{id}': {
+            ...createEndpointUsageRecord(),
+            statusCodes: { '200': 1, '418': 1 },
+          },
+        },
+      }
+    );
+
+    const { statusCodeCoverage } = readReport();
+
+    expect(statusCodeCoverage?.operations['GET /users']).toEqual({
+      documented: ['200', '4XX'],
+      observed: { '200': 3, '401': 1 },
+      missing: [],
+      undocumented: [],
+    });
+    // The 500 falls to the documented default response
+    expect(statusCodeCoverage?.operations['POST /users'].missing).toEqual(['409']);
+    expect(statusCodeCoverage?.operations['POST /users'].undocumented).toEqual([]);
+    expect(statusCodeCoverage?.operations['GET /users/{id}'].missing).toEqual(['404']);
+    expect(statusCodeCoverage?.operations['GET /users/{id}'].undocumented).toEqual(['418']);
+    expect(statusCodeCoverage?.summary).toEqual({
+      documentedCodes: 7,
+      observedCodes: 5,
+      undocumentedCodes: 1,
+      coveragePercentage: 71.43,
+    });
+  });
+
+  test('should compare documented and sent query parameters', () => {
+    const apiSpec: IOpenAPIDocument = {
+      openapi: '3.0.0',
+      paths: {
+        '/users': {
+          parameters: [{ name: 'page', in: 'query' }],
+          get: {
+            parameters: [
+              { name: 'ids', in: 'query' },
+              { $ref: '#/components/parameters/Sort' },
+              { name: 'X-Tenant', in: 'header' },
+            ],
+          },
+        },
+        '/health': { get: {} },
+      },
+      components: {
+        parameters: { Sort: { name: 'sort', in: 'query' } },
+      },
+    };
+
+    generateCoverageReport(
+      new Set(['GET /users', 'GET /health']),
+      ['GET /users', 'GET /health'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        apiSpec,
+        endpointUsage: {
+          'GET /users': {
+            ...createEndpointUsageRecord(),
+            queryParams: { page: 2, 'ids[]': 1, debug: 1 },
+          },
+        },
+      }
+    );
+
+    const { queryParameterCoverage } = readReport();
+
+    expect(queryParameterCoverage?.operations).toEqual({
+      'GET /users': {
+        documented: ['page', 'ids', 'sort'],
+        exercised: ['page', 'ids'],
+        missing: ['sort'],
+        missingRequired: [],
+        undocumented: ['debug'],
+      },
+    });
+    expect(queryParameterCoverage?.summary).toEqual({
+      documentedParams: 3,
+      exercisedParams: 2,
+      undocumentedParams: 1,
+      coveragePercentage: 66.67,
+    });
+  });
+
+  test('should compare documented and sent header and cookie parameters', () => {
+    const apiSpec: IOpenAPIDocument = {
+      openapi: '3.0.0',
+      paths: {
+        '/orders': {
+          post: {
+            parameters: [
+              { name: 'X-Tenant', in: 'header', required: true },
+              { name: 'Idempotency-Key', in: 'header', required: true },
+              { name: 'beta', in: 'cookie' },
+            ],
+          },
+        },
+      },
+    };
+
+    generateCoverageReport(
+      new Set(['POST /orders']),
+      ['POST /orders'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        apiSpec,
+        endpointUsage: {
+          'POST /orders': {
+            ...createEndpointUsageRecord(),
+            headers: { 'x-tenant': 2, 'content-type': 2, 'x-trace-id': 1, cookie: 1 },
+            cookies: { beta: 1 },
+            parameterValues: { 'header:x-tenant': ['acme'] },
+          },
+        },
+      }
+    );
+
+    const { headerParameterCoverage, cookieParameterCoverage } = readReport();
+
+    // Standard headers such as content-type are not reported as undocumented
+    expect(headerParameterCoverage?.operations['POST /orders']).toEqual({
+      documented: ['X-Tenant', 'Idempotency-Key'],
+      exercised: ['X-Tenant'],
+      missing: ['Idempotency-Key'],
+      missingRequired: ['Idempotency-Key'],
+      undocumented: ['x-trace-id'],
+      values: { 'X-Tenant': ['acme'] },
+    });
+    expect(cookieParameterCoverage?.operations['POST /orders'].exercised).toEqual(['beta']);
+    expect(cookieParameterCoverage?.summary.coveragePercentage).toBe(100);
+  });
+
+  test('should compare request body schemas with the body properties sent', () => {
+    const apiSpec: IOpenAPIDocument = {
+      openapi: '3.0.0',
+      paths: {
+        '/orders': {
+          post: {
+            requestBody: {
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/Order' } },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Order: {
+            type: 'object',
+            required: ['customerId', 'items'],
+            properties: {
+              customerId: { type: 'string' },
+              note: { type: 'string' },
+              items: { type: 'array', items: { $ref: '#/components/schemas/OrderItem' } },
+              metadata: { type: 'object', additionalProperties: { type: 'string' } },
+            },
+          },
+          OrderItem: {
+            type: 'object',
+            required: ['sku', 'quantity'],
+            properties: { sku: { type: 'string' }, quantity: { type: 'integer' } },
+          },
+        },
+      },
+    };
+
+    generateCoverageReport(
+      new Set(['POST /orders']),
+      ['POST /orders'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        apiSpec,
+        endpointUsage: {
+          'POST /orders': {
+            ...createEndpointUsageRecord(),
+            bodyProperties: {
+              customerId: 2,
+              items: 2,
+              'items[].sku': 2,
+              metadata: 1,
+              'metadata.source': 1,
+              coupon: 1,
+            },
+          },
+        },
+      }
+    );
+
+    const { requestBodyCoverage } = readReport();
+
+    // Keys of the metadata map are not undocumented properties
+    expect(requestBodyCoverage?.operations['POST /orders']).toEqual({
+      documented: ['customerId', 'note', 'items', 'items[].sku', 'items[].quantity', 'metadata'],
+      exercised: ['customerId', 'items', 'items[].sku', 'metadata'],
+      missing: ['note', 'items[].quantity'],
+      missingRequired: ['items[].quantity'],
+      undocumented: ['coupon'],
+    });
+    expect(requestBodyCoverage?.summary.coveragePercentage).toBe(66.67);
+  });
+
+  test('should list contract violations only when responses were validated', () => {
+    const violation = { status: '200', path: '$.id', expected: 'integer', actual: 'string' };
+
+    generateCoverageReport(
+      new Set(['GET /users/{id}']),
+      ['GET /users/{id}'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        endpointUsage: {
+          'GET /users/{id}': {
+            ...createEndpointUsageRecord(),
+            statusCodes: { '200': 3 },
+            validatedResponses: 3,
+            invalidResponses: 2,
+            contractViolations: [{ ...violation, count: 2 }],
+          },
+        },
+      }
+    );
+
+    const { contractViolations } = readReport();
+    expect(contractViolations?.summary).toEqual({
+      validatedResponses: 3,
+      invalidResponses: 2,
+      operationsWithViolations: 1,
+    });
+    expect(contractViolations?.operations['GET /users/{id}']).toEqual([{ ...violation, count: 2 }]);
+
+    generateCoverageReport(new Set(['GET /users']), ['GET /users'], {}, OUTPUT_PATH);
+    expect(readReport().contractViolations).toBeUndefined();
+  });
+
+  test('should group request violations by test', () => {
+    generateCoverageReport(
+      new Set(['GET /users', 'POST /users']),
+      ['GET /users', 'POST /users'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        endpointUsage: {
+          'GET /users': {
+            ...createEndpointUsageRecord(),
+            validatedRequests: 4,
+            invalidRequests: 1,
+            requestViolations: [
+              {
+                test: 'lists users',
+                path: 'query.limit',
+                expected: 'maximum 100',
+                actual: '500',
+                count: 1,
+              },
+            ],
+          },
+          'POST /users': {
+            ...createEndpointUsageRecord(),
+            validatedRequests: 2,
+            invalidRequests: 2,
+            requestViolations: [
+              {
+                test: 'lists users',
+                path: 'body',
+                expected: 'required',
+                actual: 'missing',
+                count: 1,
+              },
+              {
+                test: 'signs up',
+                path: 'body.email',
+                expected: 'string',
+                actual: 'integer',
+                count: 1,
+              },
+            ],
+          },
+        },
+      }
+    );
+
+    const { requestViolations } = readReport();
+    expect(requestViolations?.summary).toEqual({
+      validatedRequests: 6,
+      invalidRequests: 3,
+      testsWithViolations: 2,
+    });
+    expect(requestViolations?.tests['lists users']).toEqual([
+      {
+        endpoint: 'GET /users',
+        path: 'query.limit',
+        expected: 'maximum 100',
+        actual: '500',
+        count: 1,
+      },
+      { endpoint: 'POST /users', path: 'body', expected: 'required', actual: 'missing', count: 1 },
+    ]);
+    expect(requestViolations?.tests['signs up']).toHaveLength(1);
+  });
+
+  test('should report client and server errors separately per endpoint', () => {
+    generateCoverageReport(
+      new Set(['GET /users/{id}', 'POST /users']),
+      ['GET /users/{id}', 'POST /users'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        endpointUsage: {
+          'GET /users/{id}': {
+            ...createEndpointUsageRecord(),
+            statusCodes: { '200': 5, '404': 3, '503': 1 },
+            intentionalClientErrors: { '404': 2 },
+            accidentalClientErrors: { '404': 1 },
+            lastClientError: 'Request failed with status code 404',
+          },
+          'POST /users': { ...createEndpointUsageRecord(), statusCodes: { '201': 2 } },
+        },
+      }
+    );
+
+    const { clientErrorStats, errorStatsByEndpoint } = readReport();
+    expect(clientErrorStats).toEqual({
+      totalClientErrors: 3,
+      intentionalClientErrors: 2,
+      accidentalClientErrors: 1,
+      statusCodeCounts: { '404': 3 },
+      errorsByEndpoint: [
+        {
+          endpoint: 'GET /users/{id}',
+          count: 3,
+          intentional: 2,
+          accidental: 1,
+          lastError: 'Request failed with status code 404',
+        },
+      ],
+    });
+    expect(errorStatsByEndpoint).toEqual({
+      'GET /users/{id}': {
+        clientErrors: 3,
+        intentionalClientErrors: 2,
+        accidentalClientErrors: 1,
+        serverErrors: 1,
+        networkFailures: 0,
+        inFlightRequests: 0,
+        statusCodes: { '404': 3, '503': 1 },
+      },
+    });
+  });
+
+  test('should report network failures and requests left in flight', () => {
+    generateCoverageReport(
+      new Set(['GET /users/{id}', 'POST /users']),
+      ['GET /users/{id}', 'POST /users', 'GET /users'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        endpointUsage: {
+          'GET /users/{id}': {
+            ...createEndpointUsageRecord(),
+            statusCodes: { '200': 1 },
+            networkFailures: { ECONNREFUSED: 2, ETIMEDOUT: 1 },
+            lastNetworkError: 'connect ECONNREFUSED 127.0.0.1:443',
+          },
+          'POST /users': { ...createEndpointUsageRecord(), inFlightAtEnd: 1 },
+        },
+      }
+    );
+
+    const { networkFailures, errorStatsByEndpoint } = readReport();
+    expect(networkFailures).toEqual({
+      summary: {
+        totalFailures: 3,
+        inFlightRequests: 1,
+        codeCounts: { ECONNREFUSED: 2, ETIMEDOUT: 1 },
+      },
+      endpoints: {
+        'GET /users/{id}': {
+          failures: { ECONNREFUSED: 2, ETIMEDOUT: 1 },
+          inFlight: 0,
+          lastError: 'connect ECONNREFUSED 127.0.0.1:443',
+        },
+        'POST /users': { failures: {}, inFlight: 1 },
+      },
+    });
+    expect(errorStatsByEndpoint?.['GET /users/{id}']).toEqual(
+      expect.objectContaining({ networkFailures: 3, inFlightRequests: 0, statusCodes: {} })
+    );
+    expect(errorStatsByEndpoint?.['POST /users']).toEqual(
+      expect.objectContaining({ networkFailures: 0, inFlightRequests: 1 })
+    );
+  });
+
+  test('should report call counts and server error rates of tested endpoints', () => {
+    generateCoverageReport(
+      new Set(['GET /users/{id}', 'POST /users']),
+      ['GET /users/{id}'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        endpointUsage: {
+          'GET /users/{id}': {
+            ...createEndpointUsageRecord(),
+            statusCodes: { '200': 7, '500': 1 },
+          },
+        },
+        hitCounts: {
+          'GET /users/{id}': {
+            count: 8,
+            firstSeen: '2024-01-01T10:00:00.000Z',
+            lastSeen: '2024-01-01T10:30:00.000Z',
+          },
+          'GET /health': {
+            count: 2,
+            firstSeen: '2024-01-01T10:00:00.000Z',
+            lastSeen: '2024-01-01T10:00:00.000Z',
+          },
+        },
+      }
+    );
+
+    expect(readReport().endpointStats).toEqual({
+      'GET /users/{id}': {
+        count: 8,
+        firstSeen: '2024-01-01T10:00:00.000Z',
+        lastSeen: '2024-01-01T10:30:00.000Z',
+        serverErrors: 1,
+        errorRate: 0.125,
+      },
+    });
+  });
+
+  test('should profile latencies and payload sizes and list slow endpoints', () => {
+    const latencies = Array.from({ length: 100 }, (_value, index) => index + 1);
+
+    generateCoverageReport(
+      new Set(['GET /users', 'POST /users']),
+      ['GET /users', 'POST /users'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        endpointUsage: {
+          'GET /users': { ...createEndpointUsageRecord(), statusCodes: { '200': 100 }, latencies },
+          'POST /users': {
+            ...createEndpointUsageRecord(),
+            statusCodes: { '201': 2 },
+            latencies: [20, 40],
+            requestSizes: [100, 300],
+          },
+        },
+        slowEndpointThreshold: 50,
+      }
+    );
+
+    const { performance } = readReport();
+    expect(performance?.endpoints['GET /users'].latency).toEqual({
+      samples: 100,
+      min: 1,
+      avg: 50.5,
+      p50: 50,
+      p95: 95,
+      p99: 99,
+      max: 100,
+    });
+    expect(performance?.endpoints['POST /users'].requestSize).toEqual(
+      expect.objectContaining({ samples: 2, avg: 200, p50: 100, max: 300 })
+    );
+    expect(performance?.slowEndpointThreshold).toBe(50);
+    expect(performance?.slowEndpoints).toEqual([{ endpoint: 'GET /users', p95: 95, max: 100 }]);
+  });
+
+  test('should index the endpoints called by each test and the tests calling each endpoint', () => {
+    const signUp = { file: 'test/users.e2e.ts', suite: 'users', title: 'can sign up' };
+    const listUsers = { file: 'test/users.e2e.ts', suite: 'users', title: 'can be listed' };
+
+    generateCoverageReport(
+      new Set(['GET /users', 'POST /users']),
+      ['GET /users', 'POST /users'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        endpointUsage: {
+          'POST /users': {
+            ...createEndpointUsageRecord(),
+            statusCodes: { '201': 1 },
+            tests: { 'test/users.e2e.ts › users › can sign up': { ...signUp, count: 1 } },
+          },
+          'GET /users': {
+            ...createEndpointUsageRecord(),
+            statusCodes: { '200': 3 },
+            tests: {
+              'test/users.e2e.ts › users › can sign up': { ...signUp, count: 1 },
+              'test/users.e2e.ts › users › can be listed': { ...listUsers, count: 2 },
+            },
+          },
+        },
+      }
+    );
+
+    expect(readReport().traceability).toEqual({
+      tests: {
+        'test/users.e2e.ts › users › can sign up': {
+          ...signUp,
+          endpoints: { 'GET /users': 1, 'POST /users': 1 },
+        },
+        'test/users.e2e.ts › users › can be listed': {
+          ...listUsers,
+          endpoints: { 'GET /users': 2 },
+        },
+      },
+      endpoints: {
+        'GET /users': [
+          'test/users.e2e.ts › users › can be listed',
+          'test/users.e2e.ts › users › can sign up',
+        ],
+        'POST /users': ['test/users.e2e.ts › users › can sign up'],
+      },
+    });
+  });
+
+  test('should break the coverage down by worker and capability', () => {
+    const chrome = { capability: 'chrome on linux' };
+    const safari = { capability: 'safari on mac' };
+
+    generateCoverageReport(
+      new Set(['GET /users', 'GET /users/{id}', 'POST /checkout']),
+      ['GET /users', 'GET /users/{id}', 'POST /checkout'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        workers: [
+          { worker: { workerId: '0-0', ...chrome }, endpoints: ['GET /users', 'POST /checkout'] },
+          { worker: { workerId: '1-0', ...chrome }, endpoints: ['GET /users/{userId}'] },
+          { worker: { workerId: '2-0', ...safari }, endpoints: ['GET /users'] },
+        ],
+      }
+    );
+
+    const { workerCoverage, capabilityCoverage } = readReport();
+    expect(workerCoverage).toEqual({
+      '0-0': { ...chrome, testedEndpoints: 2, coveragePercentage: 66.67 },
+      '1-0': { ...chrome, testedEndpoints: 1, coveragePercentage: 33.33 },
+      '2-0': { ...safari, testedEndpoints: 1, coveragePercentage: 33.33 },
+    });
+    expect(capabilityCoverage).toEqual({
+      'chrome on linux': {
+        workers: ['0-0', '1-0'],
+        testedEndpoints: 3,
+        untestedEndpoints: 0,
+        coveragePercentage: 100,
+        untested: [],
+      },
+      'safari on mac': {
+        workers: ['2-0'],
+        testedEndpoints: 1,
+        untestedEndpoints: 2,
+        coveragePercentage: 33.33,
+        untested: ['GET /users/{id}', 'POST /checkout'],
+      },
+    });
+  });
+
+  test('should report coverage by tag, tag group and operationId', () => {
+    const apiSpec: IOpenAPIDocument = {
+      openapi: '3.0.0',
+      'x-tagGroups': [{ name: 'Accounts', tags: ['users', 'auth'] }],
+      paths: {
+        '/users': {
+          get: { operationId: 'listUsers', summary: 'List users', tags: ['users'] },
+          post: { operationId: 'createUser', tags: ['users', 'admin'], deprecated: true },
+        },
+        '/login': { post: { operationId: 'login', tags: ['auth'] } },
+        '/health': { get: {} },
+      },
+    };
+
+    generateCoverageReport(
+      new Set(['GET /users', 'POST /users', 'POST /login', 'GET /health']),
+      ['GET /users', 'POST /login'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      { apiSpec, endpointUsage: {} }
+    );
+
+    const { tagCoverage, operationIdCoverage, operations } = readReport();
+    expect(tagCoverage?.tags).toEqual({
+      users: { total: 2, tested: 1, percentage: 50, untested: ['POST /users'] },
+      admin: { total: 1, tested: 0, percentage: 0, untested: ['POST /users'] },
+      auth: { total: 1, tested: 1, percentage: 100, untested: [] },
+      '(untagged)': { total: 1, tested: 0, percentage: 0, untested: ['GET /health'] },
+    });
+    expect(tagCoverage?.tagGroups).toEqual({
+      Accounts: {
+        tags: ['users', 'auth'],
+        total: 3,
+        tested: 2,
+        percentage: 66.67,
+        untested: ['POST /users'],
+      },
+    });
+    expect(operationIdCoverage).toEqual({
+      listUsers: { endpoint: 'GET /users', tested: true },
+      createUser: { endpoint: 'POST /users', tested: false },
+      login: { endpoint: 'POST /login', tested: true },
+    });
+    expect(operations?.['POST /users']).toEqual({
+      operationId: 'createUser',
+      tags: ['users', 'admin'],
+      deprecated: true,
+      tested: false,
+    });
+    expect(operations?.['GET /users'].summary).toBe('List users');
+  });
+
+  test('should list excluded operations on their own and leave them out of the totals', () => {
+    const apiSpec: IOpenAPIDocument = {
+      openapi: '3.0.0',
+      paths: {
+        '/users': {
+          get: { operationId: 'listUsers', tags: ['users'] },
+          post: { operationId: 'createUser', tags: ['users'], deprecated: true },
+        },
+        '/users/{id}': { get: { operationId: 'getUser', 'x-coverage-ignore': true } },
+        '/metrics': { 'x-internal': true, get: {} },
+        '/admin/cache': { delete: { tags: ['admin'] } },
+        '/admin/jobs': { get: {} },
+      },
+    };
+
+    generateCoverageReport(
+      new Set([
+        'GET /users',
+        'POST /users',
+        'GET /users/{id}',
+        'GET /metrics',
+        'DELETE /admin/cache',
+        'GET /admin/jobs',
+      ]),
+      ['GET /users', 'GET /users/{id}', 'GET /metrics'],
+      {},
+      OUTPUT_PATH,
+      undefined,
+      {
+        apiSpec,
+        endpointUsage: {},
+        excludeOperations: { deprecated: true, tags: ['admin'], paths: ['/admin/**'] },
+      }
+    );
+
+    const report = readReport();
+    expect(report.summary).toEqual({
+      totalEndpoints: 1,
+      testedEndpoints: 1,
+      untestedEndpoints: 0,
+      coveragePercentage: 100,
+    });
+    expect(report.extraEndpoints).toEqual([]);
+    expect(report.excludedEndpoints).toEqual({
+      'POST /users': { reason: 'deprecated', tested: false },
+      'GET /users/{id}': { reason: 'x-coverage-ignore', tested: true },
+      'GET /metrics': { reason: 'x-internal', tested: true },
+      'DELETE /admin/cache': { reason: 'tag admin', tested: false },
+      'GET /admin/jobs': { reason: 'path', tested: false },
+    });
+    expect(report.tagCoverage?.tags.users).toEqual({
+      total: 1,
+      tested: 1,
+      percentage: 100,
+      untested: [],
+    });
+  });
+
+  test('should list the changes since the baseline report', () => {
+    const baselinePath = path.join(os.tmpdir(), 'report-generator-baseline.json');
+    const specEndpoints = new Set(['GET /users', 'POST /users', 'DELETE /users/{id}']);
+    const billing = {
+      name: 'billing',
+      specEndpoints: new Set(['GET /invoices']),
+      hitEndpoints: ['GET /invoices'],
+      serverErrors: {},
+    };
+
+    generateCoverageReport(
+      specEndpoints,
+      ['GET /users', 'POST /users', 'GET /legacy'],
+      { 'GET /users': { count: 1, statusCodes: { '500': 1 } } },
+      baselinePath,
+      undefined,
+      { specs: [billing] }
+    );
+
+    try {
+      generateCoverageReport(
+        specEndpoints,
+        ['GET /users', 'DELETE /users/{id}', 'GET /legacy', 'GET /debug'],
+        {
+          'GET /users': { count: 2, statusCodes: { '500': 2 } },
+          'DELETE /users/{id}': { count: 1, statusCodes: { '503': 1 } },
+        },
+        OUTPUT_PATH,
+        undefined,
+        { specs: [{ ...billing, hitEndpoints: [] }], baselinePath }
+      );
+      const baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf-8')) as ICoverageReport;
+
+      const { baselineDiff, specs } = readReport();
+      expect(baselineDiff).toEqual({
+        baselineTimestamp: baseline.timestamp,
+        coverageChange: 0,
+        newlyCovered: ['DELETE /users/{id}'],
+        lostCoverage: ['POST /users'],
+        newServerErrorEndpoints: ['DELETE /users/{id}'],
+        newUndocumentedEndpoints: ['GET /debug'],
+      });
+      expect(specs?.billing.baselineDiff).toMatchObject({
+        coverageChange: -100,
+        lostCoverage: ['GET /invoices'],
+      });
+    } finally {
+      fs.rmSync(baselinePath, { force: true });
+    }
+  });
+
+  test('should skip the comparison when the baseline report is missing', () => {
+    generateCoverageReport(new Set(['GET /users']), ['GET /users'], {}, OUTPUT_PATH, undefined, {
+      baselinePath: path.join(os.tmpdir(), 'report-generator-missing-baseline.json'),
+    });
+
+    expect(readReport().baselineDiff).toBeUndefined();
+  });
+
+  test('should write an HTML version of the report when asked', () => {
+    const htmlOutputPath = path.join(os.tmpdir(), 'report-generator-html', 'report.html');
+
+    try {
+      generateCoverageReport(new Set(['GET /users']), ['GET /users'], {}, OUTPUT_PATH, undefined, {
+        htmlOutputPath,
+      });
+
+      const html = fs.readFileSync(htmlOutputPath, 'utf-8');
+      expect(html).toContain('<title>API Coverage Report</title>');
+      expect(html).toContain('<tr data-endpoint="GET /users" data-status="tested">');
+    } finally {
+      fs.rmSync(path.dirname(htmlOutputPath), { recursive: true, force: true });
+    }
+  });
+
+  test('should leave out the spec sections for a single spec', () => {
+    generateCoverageReport(new Set(['GET /users']), ['GET /users'], {}, OUTPUT_PATH);
+
+    const report = readReport();
+    expect(report.specs).toBeUndefined();
+    expect(report.rollup).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test } from '@jest/globals';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  getWebDriverEndpoint,
+  isWebDriverRequest,
+  shouldTrackRequest,
+} from '../../src/utils/request-filter.js';
+import { trackRequest, trackServerError } from '../../src/interceptors/request-tracker.js';
+import type { IOpenAPIDocument, ITrackingContext } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const apiSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  servers: [{ url: 'https://api.example.com' }, { url: 'http://localhost:3000' }],
+  paths: {
+    '/users': { get: {}, post: {} },
+    '/users/{id}': { get: {} },
+  },
+};
+
+const relativeSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  servers: [{ url: '/api' }],
+  paths: {
+    '/users': { get: {} },
+  },
+};
+
+describe('request filter', () => {
+  test('should only track the spec server hosts by default', () => {
+    expect(shouldTrackRequest({}, apiSpec, 'GET', new URL('https://api.example.com/users'))).toBe(
+      true
+    );
+    expect(shouldTrackRequest({}, apiSpec, 'GET', new URL('http://localhost:3000/users'))).toBe(
+      true
+    );
+    expect(shouldTrackRequest({}, apiSpec, 'GET', new URL('https://auth.example.com/token'))).toBe(
+      false
+    );
+  });
+
+  test('should track every host when the spec declares none or the limit is disabled', () => {
+    const url = new URL('https://analytics.example.com/collect');
+
+    expect(shouldTrackRequest({}, null, 'GET', url)).toBe(true);
+    expect(shouldTrackRequest({}, relativeSpec, 'GET', url)).toBe(true);
+    expect(shouldTrackRequest({ limitToSpecHosts: false }, apiSpec, 'GET', url)).toBe(true);
+  });
+
+  test('should apply host include and exclude rules with wildcards', () => {
+    const filter = { includeHosts: ['*.example.com'], excludeHosts: ['auth.example.com'] };
+
+    expect(shouldTrackRequest(filter, apiSpec, 'GET', new URL('https://eu.example.com/a'))).toBe(
+      true
+    );
+    expect(shouldTrackRequest(filter, apiSpec, 'GET', new URL('https://auth.example.com/a'))).toBe(
+      false
+    );
+    expect(shouldTrackRequest(filter, apiSpec, 'GET', new URL('http://localhost:3000/a'))).toBe(
+      false
+    );
+  });
+
+  test('should apply path globs, regexes and method rules', () => {
+    const filter = {
+      includePaths: ['/users/**', /^\/users$/],
+      excludePaths: ['/users/*/health'],
+      excludeMethods: ['options'],
+    };
+    const track = (method: string, pathname: string): boolean =>
+      shouldTrackRequest(filter, apiSpec, method, new URL(pathname, 'https://api.example.com'));
+
+    expect(track('GET', '/users')).toBe(true);
+    expect(track('GET', '/users/1/posts')).toBe(true);
+    expect(track('GET', '/users/1/health')).toBe(false);
+    expect(track('GET', '/status')).toBe(false);
+    expect(track('OPTIONS', '/users')).toBe(false);
+    expect(
+      shouldTrackRequest({ includeMethods: ['get'] }, null, 'POST', new URL('http://a/'))
+    ).toBe(false);
+  });
+
+  test('should recognize the WebDriver commands of the session', () => {
+    const endpoint = getWebDriverEndpoint({
+      protocol: 'https',
+      hostname: 'hub.example.com',
+      port: 443,
+      path: '/wd/hub',
+    });
+
+    expect(isWebDriverRequest(endpoint, new URL('https://hub.example.com/wd/hub/session'))).toBe(
+      true
+    );
+    expect(isWebDriverRequest(endpoint, new URL('https://hub.example.com/api/users'))).toBe(false);
+    expect(isWebDriverRequest(endpoint, new URL('http://hub.example.com/wd/hub/session'))).toBe(
+      false
+    );
+    expect(getWebDriverEndpoint({ port: 4444 })).toBeUndefined();
+  });
+
+  test('should keep filtered requests out of hits and errors', () => {
+    const tempDir = os.tmpdir();
+    const context: ITrackingContext = {
+      hitEndpoints: new Set<string>(),
+      endpointErrors: {},
+      apiSpec,
+      workerId: 'filter-test',
+      hitEndpointsFile: path.join(tempDir, 'endpoints-filter-test.json'),
+      errorsFile: path.join(tempDir, 'errors-filter-test.json'),
+      endpointUsage: {},
+      usageFile: path.join(tempDir, 'usage-filter-test.json'),
+      customPatterns: [],
+      requestFilter: { excludePaths: ['/users/*'] },
+    };
+
+    trackRequest(context, 'GET', new URL('https://api.example.com/users'));
+    trackRequest(context, 'GET', new URL('https://api.example.com/users/1'));
+    trackRequest(context, 'GET', new URL('https://cdn.example.com/users'));
+    trackServerError(context, 'GET', new URL('https://api.example.com/users/1'), 500);
+    trackServerError(context, 'GET', new URL('https://cdn.example.com/users'), 503);
+
+    expect([...context.hitEndpoints]).toEqual(['GET /users']);
+    expect(context.endpointErrors).toEqual({});
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test } from '@jest/globals';
+import { validateRequest, IValidatedRequest } from '../../src/lib/request-validator.js';
+import { findSpecOperation } from '../../src/lib/openapi-processor.js';
+import type { IOpenAPIDocument, ISpecOperation } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const apiSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  paths: {
+    '/orders/{orderId}/items': {
+      parameters: [
+        { name: 'orderId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+      ],
+      post: {
+        parameters: [
+          { name: 'dryRun', in: 'query', schema: { type: 'boolean' } },
+          {
+            name: 'status',
+            in: 'query',
+            schema: { type: 'array', items: { enum: ['new', 'paid'] } },
+          },
+          { name: 'Idempotency-Key', in: 'header', required: true, schema: { type: 'string' } },
+          { name: 'Content-Type', in: 'header', required: true },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['sku'],
+                properties: { sku: { type: 'string' }, quantity: { type: 'integer', minimum: 1 } },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const operation = findSpecOperation(apiSpec, 'POST /orders/{id}/items') as ISpecOperation;
+
+/**
+ * Create a request to the operation, with the parts of a valid request unless overridden
+ */
+function createRequest(overrides: Partial<IValidatedRequest>): IValidatedRequest {
+  return {
+    path: '/orders/1b4e28ba-2fa1-11d2-883f-0016d3cca427/items',
+    query: new URLSearchParams(),
+    headers: { 'idempotency-key': 'abc' },
+    cookies: {},
+    body: { sku: 'ABC-1', quantity: 2 },
+    hasBody: true,
+    ...overrides,
+  };
+}
+
+describe('request validator', () => {
+  test('should find the operation by structure and accept a valid request', () => {
+    expect(operation.endpoint).toBe('POST /orders/{orderId}/items');
+    expect(
+      validateRequest(
+        apiSpec,
+        operation,
+        createRequest({ query: new URLSearchParams('dryRun=true&status=new&status=paid') })
+      )
+    ).toEqual([]);
+  });
+
+  test('should report invalid parameter values, missing parameters and invalid bodies', () => {
+    const request = createRequest({
+      path: '/orders/42/items',
+      query: new URLSearchParams('dryRun=maybe&status=new,lost'),
+      headers: {},
+      body: { quantity: 0 },
+    });
+
+    expect(validateRequest(apiSpec, operation, request)).toEqual([
+      { path: 'path.orderId', expected: 'format uuid', actual: '"42"' },
+      { path: 'query.dryRun', expected: 'boolean', actual: 'string' },
+      { path: 'query.status[1]', expected: 'one of [new, paid]', actual: '"lost"' },
+      { path: 'header.Idempotency-Key', expected: 'required', actual: 'missing' },
+      { path: 'body.sku', expected: 'required', actual: 'missing' },
+      { path: 'body.quantity', expected: 'minimum 1', actual: '0' },
+    ]);
+  });
+
+  test('should ignore extra slashes and skip path parameters of paths off the template', () => {
+    const validPath = '/orders/1b4e28ba-2fa1-11d2-883f-0016d3cca427/items';
+    expect(validateRequest(apiSpec, operation, createRequest({ path: `/${validPath}/` }))).toEqual(
+      []
+    );
+    expect(
+      validateRequest(apiSpec, operation, createRequest({ path: `/api/v1${validPath}` }))
+    ).toEqual([]);
+  });
+
+  test('should report a missing required body', () => {
+    expect(
+      validateRequest(apiSpec, operation, createRequest({ body: undefined, hasBody: false }))
+    ).toEqual([{ path: 'body', expected: 'required', actual: 'missing' }]);
+  });
+
+  test('should not require readOnly body properties', () => {
+    const spec: IOpenAPIDocument = {
+      openapi: '3.0.0',
+      paths: {
+        '/users': {
+          post: {
+            requestBody: {
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/User' } },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          User: {
+            type: 'object',
+            required: ['id', 'name'],
+            properties: { id: { type: 'integer', readOnly: true }, name: { type: 'string' } },
+          },
+        },
+      },
+    };
+
+    expect(
+      validateRequest(spec, findSpecOperation(spec, 'POST /users') as ISpecOperation, {
+        path: '/users',
+        query: new URLSearchParams(),
+        headers: {},
+        cookies: {},
+        body: { name: 'Ada' },
+        hasBody: true,
+      })
+    ).toEqual([]);
+  });
+
+  test('should only report the values of headers and cookies opted into recording', () => {
+    const spec: IOpenAPIDocument = {
+      openapi: '3.0.0',
+      paths: {
+        '/reports': {
+          get: {
+            parameters: [
+              { name: 'X-Api-Key', in: 'header', schema: { type: 'string', pattern: '^key-' } },
+              { name: 'X-Region', in: 'header', schema: { enum: ['eu', 'us'] } },
+              { name: 'session', in: 'cookie', schema: { type: 'string', format: 'uuid' } },
+            ],
+          },
+        },
+      },
+    };
+    const request: IValidatedRequest = {
+      path: '/reports',
+      query: new URLSearchParams(),
+      headers: { 'x-api-key': 'secret', 'x-region': 'ap' },
+      cookies: { session: 'token' },
+      hasBody: false,
+      recordedValues: ['x-region'],
+    };
+
+    expect(
+      validateRequest(spec, findSpecOperation(spec, 'GET /reports') as ISpecOperation, request)
+    ).toEqual([
+      { path: 'header.X-Api-Key', expected: 'pattern ^key-', actual: 'redacted' },
+      { path: 'header.X-Region', expected: 'one of [eu, us]', actual: '"ap"' },
+      { path: 'cookie.session', expected: 'format uuid', actual: 'redacted' },
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, test } from '@jest/globals';
+import { validateSchema } from '../../src/utils/schema-validator.js';
+import type { IOpenAPIDocument, ISchemaObject } from '../../src/types/index.js';
+
+const apiSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  paths: {},
+  components: {
+    schemas: {
+      Item: {
+        type: 'object',
+        required: ['sku'],
+        additionalProperties: false,
+        properties: {
+          sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' },
+          price: { type: 'number', minimum: 0 },
+        },
+      },
+    },
+  },
+};
+
+const orderSchema: ISchemaObject = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    status: { type: 'string', enum: ['open', 'closed'] },
+    note: { type: 'string', nullable: true },
+    items: { type: 'array', items: { $ref: '#/components/schemas/Item' } },
+  },
+};
+
+describe('schema validator', () => {
+  test('should accept a valid value', () => {
+    const order = {
+      id: '1b4e28ba-2fa1-11d2-883f-0016d3cca427',
+      status: 'open',
+      note: null,
+      items: [{ sku: 'ABC-1', price: 2 }],
+    };
+
+    expect(validateSchema(apiSpec, orderSchema, order)).toEqual([]);
+  });
+
+  test('should report the path, expectation and actual value of every violation', () => {
+    const order = {
+      id: 'not-a-uuid',
+      status: 'lost',
+      items: [{ sku: 'abc', price: -1, color: 'red' }, { price: '3' }],
+    };
+
+    expect(validateSchema(apiSpec, orderSchema, order)).toEqual([
+      { path: '$.id', expected: 'format uuid', actual: '"not-a-uuid"' },
+      { path: '$.status', expected: 'one of [open, closed]', actual: '"lost"' },
+      { path: '$.items[0].sku', expected: 'pattern ^[A-Z]{3}-\\d+$', actual: '"abc"' },
+      { path: '$.items[0].price', expected: 'minimum 0', actual: '-1' },
+      { path: '$.items[0].color', expected: 'no additional properties', actual: 'present' },
+      { path: '$.items[1].sku', expected: 'required', actual: 'missing' },
+      { path: '$.items[1].price', expected: 'number', actual: 'string' },
+    ]);
+  });
+
+  test('should accept any matching oneOf alternative', () => {
+    const schema: ISchemaObject = { oneOf: [{ type: 'string' }, { type: 'integer' }] };
+
+    expect(validateSchema(apiSpec, schema, 3)).toEqual([]);
+    expect(validateSchema(apiSpec, schema, true)).toEqual([
+      { path: '$', expected: 'oneOf alternative', actual: 'boolean' },
+    ]);
+  });
+
+  test('should require exactly one matching oneOf alternative', () => {
+    const schema: ISchemaObject = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+
+    expect(validateSchema(apiSpec, schema, 1.5)).toEqual([]);
+    expect(validateSchema(apiSpec, schema, 3)).toEqual([
+      { path: '$', expected: 'exactly one oneOf alternative', actual: '2 matching alternatives' },
+    ]);
+    expect(validateSchema(apiSpec, { anyOf: schema.oneOf }, 3)).toEqual([]);
+  });
+
+  test('should not require readOnly properties in requests', () => {
+    const schema: ISchemaObject = {
+      type: 'object',
+      required: ['id', 'name'],
+      properties: { id: { type: 'integer', readOnly: true }, name: { type: 'string' } },
+    };
+
+    expect(
+      validateSchema(apiSpec, schema, { name: 'Ada' }, 'body', { direction: 'request' })
+    ).toEqual([]);
+    expect(validateSchema(apiSpec, schema, { name: 'Ada' })).toEqual([
+      { path: '$.id', expected: 'required', actual: 'missing' },
+    ]);
+  });
+
+  test('should not require writeOnly properties in responses', () => {
+    const schema: ISchemaObject = {
+      type: 'object',
+      required: ['email', 'password'],
+      properties: { email: { type: 'string' }, password: { type: 'string', writeOnly: true } },
+    };
+
+    expect(
+      validateSchema(apiSpec, schema, { email: 'ada@example.com' }, '$', { direction: 'response' })
+    ).toEqual([]);
+    expect(
+      validateSchema(apiSpec, schema, { email: 'ada@example.com' }, '$', { direction: 'request' })
+    ).toEqual([{ path: '$.password', expected: 'required', actual: 'missing' }]);
+  });
+
+  test('should redact offending values when asked', () => {
+    const schema: ISchemaObject = { type: 'string', pattern: '^key-[a-z]+$' };
+
+    expect(
+      validateSchema(apiSpec, schema, 'secret', 'header.X-Api-Key', { redactValues: true })
+    ).toEqual([{ path: 'header.X-Api-Key', expected: 'pattern ^key-[a-z]+$', actual: 'redacted' }]);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, test } from '@jest/globals';
+import {
+  collectBodyPaths,
+  collectSchemaProperties,
+  resolveSchemaRef,
+} from '../../src/utils/schema-walker.js';
+import type { IOpenAPIDocument } from '../../src/types/index.js';
+
+const apiSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  paths: {},
+  components: {
+    schemas: {
+      Named: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+      Category: {
+        allOf: [
+          { $ref: '#/components/schemas/Named' },
+          {
+            type: 'object',
+            properties: {
+              children: { type: 'array', items: { $ref: '#/components/schemas/Category' } },
+            },
+          },
+        ],
+      },
+    },
+  },
+};
+
+describe('schema walker', () => {
+  test('should resolve local references and give up on missing or remote ones', () => {
+    expect(resolveSchemaRef(apiSpec, { $ref: '#/components/schemas/Named' })?.required).toEqual([
+      'name',
+    ]);
+    expect(resolveSchemaRef(apiSpec, { $ref: '#/components/schemas/Missing' })).toBeUndefined();
+    expect(resolveSchemaRef(apiSpec, { $ref: 'other.yaml#/Named' })).toBeUndefined();
+  });
+
+  test('should collect merged and recursive schema properties once per branch', () => {
+    const { properties, openPaths } = collectSchemaProperties(apiSpec, {
+      $ref: '#/components/schemas/Category',
+    });
+
+    expect(properties).toEqual([
+      { path: 'name', required: true },
+      { path: 'children', required: false },
+    ]);
+    expect(openPaths).toEqual([]);
+  });
+
+  test('should collect the property paths of a body', () => {
+    expect(
+      collectBodyPaths([
+        { id: 1, tags: ['a'] },
+        { id: 2, owner: { name: 'Ada' } },
+      ])
+    ).toEqual(['[].id', '[].tags', '[].owner', '[].owner.name']);
+    expect(collectBodyPaths('text')).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test } from '@jest/globals';
+import {
+  getSpecServers,
+  matchSpecServer,
+  stripServerBasePath,
+} from '../../src/utils/server-resolver.js';
+import { normalizePath } from '../../src/utils/path-normalizer.js';
+import type { IOpenAPIDocument } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const openApiSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  servers: [
+    {
+      url: 'https://{environment}.example.com/api/{version}',
+      variables: {
+        environment: { default: 'prod', enum: ['prod', 'staging'] },
+        version: { default: 'v2' },
+      },
+    },
+    { url: '/internal' },
+  ],
+  paths: {
+    '/users': { get: {} },
+    '/users/{id}': { get: {} },
+  },
+};
+
+const swaggerSpec: IOpenAPIDocument = {
+  swagger: '2.0',
+  host: 'petstore.example.com',
+  basePath: '/v1/',
+  schemes: ['http', 'https'],
+  paths: {
+    '/pets/{petId}': { get: {} },
+  },
+};
+
+describe('server resolver', () => {
+  test('should expand OpenAPI server variables', () => {
+    const servers = getSpecServers(openApiSpec);
+
+    expect(servers).toEqual([
+      { url: 'https://prod.example.com/api/v2', host: 'prod.example.com', basePath: '/api/v2' },
+      {
+        url: 'https://staging.example.com/api/v2',
+        host: 'staging.example.com',
+        basePath: '/api/v2',
+      },
+      { url: '/internal', host: undefined, basePath: '/internal' },
+    ]);
+  });
+
+  test('should derive servers from Swagger host, basePath and schemes', () => {
+    const servers = getSpecServers(swaggerSpec);
+
+    expect(servers.map(({ url }) => url)).toEqual([
+      'http://petstore.example.com/v1/',
+      'https://petstore.example.com/v1/',
+    ]);
+    expect(servers.every(({ basePath }) => basePath === '/v1')).toBe(true);
+  });
+
+  test('should match the server a request was sent to', () => {
+    expect(
+      matchSpecServer(openApiSpec, new URL('https://staging.example.com/api/v2/users'))?.url
+    ).toBe('https://staging.example.com/api/v2');
+    expect(matchSpecServer(openApiSpec, new URL('http://localhost:3000/internal/users'))?.url).toBe(
+      '/internal'
+    );
+    expect(matchSpecServer(openApiSpec, new URL('https://other.example.com/users'))).toBeNull();
+  });
+
+  test('should strip the server base path at segment boundaries only', () => {
+    expect(stripServerBasePath('/api/v2/users/1', openApiSpec)).toBe('/users/1');
+    expect(stripServerBasePath('/api/v2', openApiSpec)).toBe('/');
+    expect(stripServerBasePath('/api/v20/users', openApiSpec)).toBe('/api/v20/users');
+    expect(stripServerBasePath('/users', openApiSpec)).toBe('/users');
+  });
+
+  test('should normalize prefixed request paths to spec paths', () => {
+    expect(normalizePath('/api/v2/users/42', openApiSpec)).toBe('/users/{id}');
+    expect(normalizePath('/internal/users', openApiSpec)).toBe('/users');
+    expect(normalizePath('/v1/pets/7', swaggerSpec)).toBe('/pets/{petId}');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test } from '@jest/globals';
+import os from 'node:os';
+import path from 'node:path';
+import { isRoutableSpec, routeRequest } from '../../src/utils/spec-router.js';
+import { trackRequest } from '../../src/interceptors/request-tracker.js';
+import type {
+  IOpenAPIDocument,
+  ISpecTrackingTarget,
+  ITrackingContext,
+} from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const tempDir = os.tmpdir();
+
+const usersSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  servers: [{ url: 'https://users.example.com' }],
+  paths: {
+    '/users': { get: {} },
+    '/users/{id}': { get: {} },
+  },
+};
+
+const billingSpec: IOpenAPIDocument = {
+  openapi: '3.0.0',
+  paths: {
+    '/invoices': { get: {} },
+    '/invoices/{invoiceId}': { get: {} },
+  },
+};
+
+/**
+ * Create the tracking target of an additional spec
+ */
+function createTarget(
+  name: string,
+  apiSpec: IOpenAPIDocument,
+  routing: Pick<ISpecTrackingTarget, 'hosts' | 'pathPrefix'>
+): ISpecTrackingTarget {
+  return {
+    name,
+    ...routing,
+    apiSpec,
+    hitEndpoints: new Set<string>(),
+    endpointErrors: {},
+    endpointUsage: {},
+    hitEndpointsFile: path.join(tempDir, `endpoints-${name}-router-test.json`),
+    errorsFile: path.join(tempDir, `errors-${name}-router-test.json`),
+    usageFile: path.join(tempDir, `usage-${name}-router-test.json`),
+    customPatterns: [],
+  };
+}
+
+/**
+ * Create a context with a users spec routed by its servers and a billing spec routed by prefix
+ */
+function createContext(defaultSpec: IOpenAPIDocument | null): ITrackingContext {
+  return {
+    hitEndpoints: new Set<string>(),
+    endpointErrors: {},
+    apiSpec: defaultSpec,
+    workerId: 'router-test',
+    hitEndpointsFile: path.join(tempDir, 'endpoints-router-test.json'),
+    errorsFile: path.join(tempDir, 'errors-router-test.json'),
+    endpointUsage: {},
+    usageFile: path.join(tempDir, 'usage-router-test.json'),
+    customPatterns: [],
+    specTargets: [
+      createTarget('users', usersSpec, {}),
+      createTarget('billing', billingSpec, {
+        hosts: ['gateway.example.com'],
+        pathPrefix: '/billing',
+      }),
+    ],
+  };
+}
+
+describe('spec router', () => {
+  test('should route requests by spec server host and by host and path prefix', () => {
+    const context = createContext(null);
+
+    const usersRoute = routeRequest(context, new URL('https://users.example.com/users/1'));
+    expect((usersRoute?.target as ISpecTrackingTarget).name).toBe('users');
+    expect(usersRoute?.pathname).toBe('/users/1');
+
+    const billingRoute = routeRequest(
+      context,
+      new URL('https://gateway.example.com/billing/invoices/7')
+    );
+    expect((billingRoute?.target as ISpecTrackingTarget).name).toBe('billing');
+    expect(billingRoute?.pathname).toBe('/invoices/7');
+
+    // Prefixes only match whole segments
+    expect(routeRequest(context, new URL('https://gateway.example.com/billings/1'))).toBeNull();
+  });
+
+  test('should fall back to the default spec when one is loaded', () => {
+    const defaultSpec: IOpenAPIDocument = { openapi: '3.0.0', paths: { '/health': { get: {} } } };
+    const context = createContext(defaultSpec);
+
+    const route = routeRequest(context, new URL('https://other.example.com/health'));
+    expect(route?.target).toBe(context);
+    expect(route?.routed).toBe(false);
+  });
+
+  test('should never route requests to a spec without hosts or path prefix', () => {
+    const defaultSpec: IOpenAPIDocument = { openapi: '3.0.0', paths: { '/health': { get: {} } } };
+    const context = createContext(defaultSpec);
+    const catchAllTarget = createTarget('catch-all', billingSpec, {});
+    context.specTargets?.push(catchAllTarget);
+
+    expect(isRoutableSpec(catchAllTarget)).toBe(false);
+    expect(routeRequest(context, new URL('https://other.example.com/invoices/1'))?.target).toBe(
+      context
+    );
+  });
+
+  test('should record hits against the spec the request was routed to', () => {
+    const context = createContext(null);
+    const [usersTarget, billingTarget] = context.specTargets as ISpecTrackingTarget[];
+
+    trackRequest(context, 'GET', new URL('https://users.example.com/users/1'));
+    trackRequest(context, 'GET', new URL('https://gateway.example.com/billing/invoices/7'));
+    trackRequest(context, 'GET', new URL('https://analytics.example.com/collect'));
+
+    expect([...usersTarget.hitEndpoints]).toEqual(['GET /users/{id}']);
+    expect([...billingTarget.hitEndpoints]).toEqual(['GET /invoices/{invoiceId}']);
+    expect(context.hitEndpoints.size).toBe(0);
+  });
+});
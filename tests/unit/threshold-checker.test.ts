@@ -0,0 +1,277 @@
+/**
+ * @jest-environment node
+ */
+import { jest, describe, expect, test, afterEach } from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { checkRegressions, checkThresholds } from '../../src/lib/threshold-checker.js';
+import { OpenAPICoverageLauncher } from '../../src/lib/coverage-launcher.js';
+import { COVERAGE_DIR, saveHitEndpoints } from '../../src/utils/file-utils.js';
+import type { ICoverageReport } from '../../src/types/index.js';
+
+jest.mock('@wdio/logger', () => {
+  return jest.fn().mockImplementation(() => ({
+    trace: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }));
+});
+
+const REPORT_PATH = path.join(os.tmpdir(), 'threshold-checker-test.json');
+
+function createReport(): ICoverageReport {
+  return {
+    summary: {
+      totalEndpoints: 4,
+      testedEndpoints: 3,
+      untestedEndpoints: 1,
+      coveragePercentage: 75,
+    },
+    methodCoverage: {
+      GET: { total: 2, tested: 2, percentage: 100 },
+      POST: { total: 2, tested: 1, percentage: 50 },
+    },
+    tagCoverage: {
+      tags: { users: { total: 2, tested: 1, percentage: 50, untested: ['POST /users'] } },
+    },
+    serverErrorStats: {
+      totalServerErrors: 2,
+      statusCodeCounts: { '500': 2 },
+      errorsByEndpoint: [],
+    },
+    endpoints: { tested: [], untested: ['POST /users'] },
+    extraEndpoints: ['GET /internal/debug'],
+    serverErrors: {},
+    timestamp: new Date().toISOString(),
+  };
+}
+
+describe('threshold checker', () => {
+  test('should pass a report meeting every threshold', () => {
+    expect(
+      checkThresholds(createReport(), {
+        coverage: 75,
+        methods: { get: 100 },
+        tags: { users: 50 },
+        maxServerErrors: 2,
+        maxUndocumentedEndpoints: 1,
+      })
+    ).toEqual([]);
+  });
+
+  test('should describe every missed threshold', () => {
+    expect(
+      checkThresholds(createReport(), {
+        coverage: 80,
+        methods: { POST: 60, DELETE: 50 },
+        tags: { users: 60, orders: 50 },
+        maxServerErrors: 0,
+        maxUndocumentedEndpoints: 0,
+      })
+    ).toEqual([
+      'Coverage 75% is below the threshold of 80%',
+      'POST coverage 50% is below the threshold of 60%',
+      'DELETE coverage is missing from the report',
+      'Tag users coverage 50% is below the threshold of 60%',
+      'Tag orders is missing from the report',
+      '2 server errors (5xx) exceed the maximum of 0',
+      '1 undocumented endpoints exceed the maximum of 0: GET /internal/debug',
+    ]);
+  });
+
+  test('should check the totals and the tags of every spec with several specs', () => {
+    const report = createReport();
+    report.rollup = {
+      summary: {
+        totalEndpoints: 8,
+        testedEndpoints: 4,
+        untestedEndpoints: 4,
+        coveragePercentage: 50,
+      },
+      methodCoverage: {},
+      serverErrorStats: { totalServerErrors: 0, statusCodeCounts: {}, errorsByEndpoint: [] },
+    };
+    report.specs = {
+      billing: {
+        ...createReport(),
+        tagCoverage: { tags: { users: { total: 1, tested: 0, percentage: 0, untested: [] } } },
+        extraEndpoints: [],
+      },
+    };
+
+    expect(checkThresholds(report, { coverage: 60, tags: { users: 50 } })).toEqual([
+      'Coverage 50% is below the threshold of 60%',
+      'Tag users (billing) coverage 0% is below the threshold of 50%',
+    ]);
+  });
+});
+
+describe('regression checker', () => {
+  test('should describe the regressions of every spec since the baseline', () => {
+    const report = createReport();
+    report.baselineDiff = {
+      coverageChange: -25,
+      newlyCovered: ['GET /orders'],
+      lostCoverage: ['POST /users', 'DELETE /users/{id}'],
+      newServerErrorEndpoints: [],
+      newUndocumentedEndpoints: ['GET /internal/debug'],
+    };
+    report.specs = {
+      billing: {
+        ...createReport(),
+        baselineDiff: {
+          coverageChange: 0,
+          newlyCovered: [],
+          lostCoverage: [],
+          newServerErrorEndpoints: ['GET /invoices'],
+          newUndocumentedEndpoints: [],
+        },
+      },
+    };
+
+    expect(checkRegressions(report)).toEqual([
+      'Coverage lost: POST /users, DELETE /users/{id}',
+      'New undocumented endpoints: GET /internal/debug',
+      'New server errors (5xx) (billing): GET /invoices',
+    ]);
+  });
+
+  test('should pass a report without baseline or regressions', () => {
+    const report = createReport();
+    expect(checkRegressions(report)).toEqual([]);
+
+    report.baselineDiff = {
+      coverageChange: 5,
+      newlyCovered: ['GET /orders'],
+      lostCoverage: [],
+      newServerErrorEndpoints: [],
+      newUndocumentedEndpoints: [],
+    };
+    expect(checkRegressions(report)).toEqual([]);
+  });
+});
+
+describe('coverage launcher', () => {
+  const OPENAPI_PATH = path.join(process.cwd(), 'tests/fixtures/openapi.json');
+  const BASELINE_PATH = path.join(os.tmpdir(), 'threshold-checker-baseline.json');
+
+  // Save the endpoints called by two workers, as they do in their after hook
+  function saveWorkerHits(): void {
+    saveHitEndpoints(path.join(COVERAGE_DIR, 'endpoints-0-0.json'), new Set(['GET /users']), '0-0');
+    saveHitEndpoints(
+      path.join(COVERAGE_DIR, 'endpoints-1-0.json'),
+      new Set(['GET /users/{id}']),
+      '1-0'
+    );
+  }
+
+  function readReport(): ICoverageReport {
+    return JSON.parse(fs.readFileSync(REPORT_PATH, 'utf-8')) as ICoverageReport;
+  }
+
+  afterEach(() => {
+    fs.rmSync(REPORT_PATH, { force: true });
+    fs.rmSync(BASELINE_PATH, { force: true });
+    fs.rmSync(COVERAGE_DIR, { recursive: true, force: true });
+    delete process.env.WDIO_OPENAPI_LAUNCHER;
+  });
+
+  test('should remove the data of a previous run before the workers start', () => {
+    saveWorkerHits();
+    new OpenAPICoverageLauncher({ outputPath: REPORT_PATH }).onPrepare();
+
+    expect(fs.readdirSync(COVERAGE_DIR)).toEqual([]);
+    expect(process.env.WDIO_OPENAPI_LAUNCHER).toBe('true');
+  });
+
+  test('should generate the report from the endpoints of every worker', async () => {
+    const launcher = new OpenAPICoverageLauncher({
+      openApiPath: OPENAPI_PATH,
+      outputPath: REPORT_PATH,
+    });
+    launcher.onPrepare();
+    saveWorkerHits();
+
+    await launcher.onComplete();
+
+    const report = readReport();
+    expect(report.endpoints.tested.sort()).toEqual(['GET /users', 'GET /users/{id}']);
+    expect(report.summary.totalEndpoints).toBe(7);
+  });
+
+  test('should fail the run with a summary of the missed thresholds', async () => {
+    const launcher = new OpenAPICoverageLauncher({
+      openApiPath: OPENAPI_PATH,
+      outputPath: REPORT_PATH,
+      thresholds: { coverage: 80, maxServerErrors: 5 },
+    });
+    launcher.onPrepare();
+    saveWorkerHits();
+
+    await expect(launcher.onComplete()).rejects.toThrow(
+      expect.objectContaining({
+        name: 'SevereServiceError',
+        message: 'API coverage checks failed:\n  - Coverage 28.57% is below the threshold of 80%',
+      })
+    );
+  });
+
+  test('should pass when the thresholds are met', async () => {
+    const launcher = new OpenAPICoverageLauncher({
+      openApiPath: OPENAPI_PATH,
+      outputPath: REPORT_PATH,
+      thresholds: { coverage: 25 },
+    });
+    launcher.onPrepare();
+    saveWorkerHits();
+
+    await expect(launcher.onComplete()).resolves.toBeUndefined();
+  });
+
+  test('should fail only on regressions with failOnRegression', async () => {
+    const baseline = createReport();
+    baseline.endpoints = { tested: ['GET /users', 'POST /users'], untested: [] };
+    baseline.extraEndpoints = [];
+    fs.writeFileSync(BASELINE_PATH, JSON.stringify(baseline));
+
+    const launcher = new OpenAPICoverageLauncher({
+      openApiPath: OPENAPI_PATH,
+      outputPath: REPORT_PATH,
+      baselinePath: BASELINE_PATH,
+      failOnRegression: true,
+    });
+    launcher.onPrepare();
+    saveWorkerHits();
+
+    await expect(launcher.onComplete()).rejects.toThrow(
+      'API coverage checks failed:\n  - Coverage lost: POST /users'
+    );
+  });
+
+  test('should keep a report used as the baseline of the run', () => {
+    fs.writeFileSync(REPORT_PATH, JSON.stringify(createReport()));
+    new OpenAPICoverageLauncher({
+      outputPath: REPORT_PATH,
+      baselinePath: REPORT_PATH,
+      failOnRegression: true,
+    }).onPrepare();
+
+    expect(fs.existsSync(REPORT_PATH)).toBe(true);
+  });
+
+  test('should fail when the report could not be generated', async () => {
+    fs.writeFileSync(REPORT_PATH, JSON.stringify(createReport()));
+    const launcher = new OpenAPICoverageLauncher({
+      openApiPath: OPENAPI_PATH,
+      // A file stands where the directory of the report should be
+      outputPath: path.join(REPORT_PATH, 'report.json'),
+      thresholds: { coverage: 0 },
+    });
+    launcher.onPrepare();
+
+    await expect(launcher.onComplete()).rejects.toThrow(/No coverage report was generated/);
+  });
+});